@@ -6,8 +6,9 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { exec } from "child_process";
-import { promisify } from "util";
+import { spawn } from "child_process";
+import fs from "fs/promises";
+import path from "path";
 import { parseArgs } from "node:util";
 
 // コマンドライン引数の解析
@@ -39,8 +40,623 @@ function log(level: string, ...args: any[]) {
   console.error(`[${level.toUpperCase()}]`, ...args);
 }
 
-// Gitコマンド実行のためのexec関数のPromise化
-const execAsync = promisify(exec);
+// Git操作のエラーの基底クラス
+class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+// "-c key=value" の設定オプションを除いた最初の引数（サブコマンド）を取得
+function gitSubcommand(args: string[]): string {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "-c") {
+      i++;
+      continue;
+    }
+    return args[i] ?? "";
+  }
+  return "";
+}
+
+// gitコマンドが失敗した場合のエラー
+class GitCommandError extends GitError {
+  constructor(
+    public readonly args: string[],
+    public readonly exitCode: number | null,
+    public readonly stderr: string,
+    public readonly stdout: string,
+  ) {
+    super(
+      `git ${gitSubcommand(args)} failed (exit code ${exitCode}): ${stderr.trim() || stdout.trim()}`,
+    );
+    this.name = "GitCommandError";
+  }
+}
+
+// 参照名（ブランチ名・タグ名・リビジョン）が不正な場合のエラー
+class InvalidRefError extends GitError {
+  constructor(
+    public readonly ref: string,
+    reason: string,
+  ) {
+    super(`Invalid ${reason}: '${ref}'`);
+    this.name = "InvalidRefError";
+  }
+}
+
+// 参照が存在しない場合のエラー
+class RefNotFoundError extends GitError {
+  constructor(kind: string, ref: string) {
+    super(`${kind} '${ref}' not found`);
+    this.name = "RefNotFoundError";
+  }
+}
+
+// 参照が既に存在する場合のエラー
+class RefAlreadyExistsError extends GitError {
+  constructor(kind: string, ref: string) {
+    super(`${kind} '${ref}' already exists`);
+    this.name = "RefAlreadyExistsError";
+  }
+}
+
+// gitコマンドの実行結果
+interface GitCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+// gitコマンドの実行オプション
+interface GitCommandOptions {
+  // 標準入力に渡す内容
+  input?: string;
+  // 失敗として扱わない終了コード（0以外）
+  allowedExitCodes?: number[];
+}
+
+// gitを引数配列で実行（シェルを経由しないため、引数のエスケープは不要）
+function runGit(
+  cwd: string,
+  args: string[],
+  options: GitCommandOptions = {},
+): Promise<GitCommandResult> {
+  return new Promise((resolve, reject) => {
+    log("debug", `Running git ${args.join(" ")} in ${cwd}`);
+    // 認証情報の入力待ちで停止しないよう、ターミナルでのプロンプトを無効化
+    const child = spawn("git", args, {
+      cwd,
+      stdio: "pipe",
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        new GitError(
+          error.code === "ENOENT"
+            ? "git executable not found in PATH"
+            : `Failed to run git: ${error.message}`,
+        ),
+      );
+    });
+    child.on("close", (code) => {
+      const result = {
+        stdout: Buffer.concat(stdout).toString("utf8"),
+        stderr: Buffer.concat(stderr).toString("utf8"),
+        exitCode: code ?? -1,
+      };
+      if (code === 0 || (code !== null && options.allowedExitCodes?.includes(code))) {
+        resolve(result);
+      } else {
+        reject(new GitCommandError(args, code, result.stderr, result.stdout));
+      }
+    });
+
+    child.stdin.end(options.input ?? "");
+  });
+}
+
+// オプションとして解釈されないことを確認（引数インジェクション対策）
+function assertNotOption(value: string, reason: string): void {
+  if (value === "" || value.startsWith("-")) {
+    throw new InvalidRefError(value, reason);
+  }
+}
+
+// 構造化されたステータスのエントリ
+interface GitStatusEntry {
+  path: string;
+  status: string;
+  origPath?: string;
+  similarity?: number;
+}
+
+// 構造化されたリポジトリの状態（git status --porcelain=v2 の解析結果）
+interface GitStatusResult {
+  branch: {
+    head: string | null;
+    oid: string | null;
+    upstream: string | null;
+    ahead: number | null;
+    behind: number | null;
+    detached: boolean;
+  };
+  staged: GitStatusEntry[];
+  unstaged: GitStatusEntry[];
+  conflicted: GitStatusEntry[];
+  untracked: string[];
+  clean: boolean;
+}
+
+// 構造化されたコミットログのエントリ
+interface GitLogEntry {
+  hash: string;
+  parents: string[];
+  author: { name: string; email: string; date: string };
+  committer: { name: string; email: string; date: string };
+  subject: string;
+  body: string;
+  refs: string[];
+}
+
+// porcelain v2 の変更種別コードと名称の対応
+const STATUS_CODES: Record<string, string> = {
+  M: "modified",
+  T: "type-changed",
+  A: "added",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  U: "unmerged",
+};
+
+// porcelain v2 のコンフリクト種別（XY）と名称の対応
+const CONFLICT_CODES: Record<string, string> = {
+  DD: "both deleted",
+  AU: "added by us",
+  UD: "deleted by them",
+  UA: "added by them",
+  DU: "deleted by us",
+  AA: "both added",
+  UU: "both modified",
+};
+
+// git log の構造化出力用フォーマット（フィールドはNUL、コミットはRSで区切る）
+const LOG_FORMAT = ["%H", "%P", "%an", "%ae", "%aI", "%cn", "%ce", "%cI", "%D", "%s", "%b"].join(
+  "%x00",
+);
+
+// LOG_FORMAT の各フィールドをコミットログのエントリに変換
+function parseLogFields(fields: string[]): GitLogEntry {
+  const [
+    hash = "",
+    parents = "",
+    authorName = "",
+    authorEmail = "",
+    authorDate = "",
+    committerName = "",
+    committerEmail = "",
+    committerDate = "",
+    refs = "",
+    subject = "",
+    body = "",
+  ] = fields;
+  return {
+    hash,
+    parents: parents ? parents.split(" ") : [],
+    author: { name: authorName, email: authorEmail, date: authorDate },
+    committer: { name: committerName, email: committerEmail, date: committerDate },
+    subject,
+    body: body.trim(),
+    refs: refs ? refs.split(", ") : [],
+  };
+}
+
+// 差分の行
+interface GitDiffLine {
+  type: "context" | "add" | "delete";
+  content: string;
+  oldLine: number | null;
+  newLine: number | null;
+  noNewline?: boolean;
+}
+
+// 差分のハンク
+interface GitDiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: GitDiffLine[];
+}
+
+// ファイルごとの差分
+interface GitDiffFile {
+  path: string;
+  oldPath: string | null;
+  status: string;
+  binary: boolean;
+  // パッチを再構成するための "diff --git" から最初のハンクまでのヘッダー行
+  headerLines: string[];
+  hunks: GitDiffHunk[];
+}
+
+// 差分の比較対象（未ステージ、ステージ済み、または指定したコミット・範囲）
+type GitDiffSource = "unstaged" | "staged" | { target: string };
+
+// 差分の表示オプション
+interface GitDiffOptions {
+  paths?: string[];
+  contextLines?: number;
+  stat?: "stat" | "numstat";
+  findRenames?: boolean;
+  wordDiff?: boolean;
+}
+
+// JSON形式で返す差分（ファイル単位でページングされる）
+interface GitDiffResult {
+  totalFiles: number;
+  offset: number;
+  files: {
+    path: string;
+    oldPath: string | null;
+    status: string;
+    binary: boolean;
+    additions: number;
+    deletions: number;
+    hunks?: GitDiffHunk[];
+  }[];
+}
+
+// blameの行ごとの情報
+interface GitBlameLine {
+  line: number;
+  commit: string;
+  originalLine: number;
+  originalPath: string;
+  author: string;
+  authorEmail: string;
+  date: string;
+  summary: string;
+  content: string;
+}
+
+// ファイル履歴のエントリ（そのコミット時点のパスと差分を含む）
+interface GitFileHistoryEntry extends GitLogEntry {
+  path: string;
+  status: string;
+  previousPath?: string;
+  diff?: string;
+}
+
+// 途中で停止しうる履歴統合操作の種類
+type GitOperation = "merge" | "rebase" | "cherry-pick" | "revert";
+
+// コンフリクト箇所（ours/base/theirsの内容と行範囲）
+interface GitConflictHunk {
+  startLine: number;
+  endLine: number;
+  oursLabel: string;
+  theirsLabel: string;
+  ours: string;
+  base: string | null;
+  theirs: string;
+}
+
+// コンフリクトしているファイル
+interface GitConflictFile {
+  path: string;
+  status: string;
+  hunks: GitConflictHunk[];
+}
+
+// マージ・リベース・チェリーピックの結果
+interface GitIntegrationResult {
+  operation: GitOperation;
+  completed: boolean;
+  // git_continueで再開できるか（squashマージなどは進行中の状態が残らない）
+  resumable: boolean;
+  output: string;
+  conflicts: GitConflictFile[];
+}
+
+// 進行中の操作を判定するための管理ファイル（リベースを優先して判定）
+const OPERATION_STATE_FILES: [GitOperation, string][] = [
+  ["rebase", "rebase-merge"],
+  ["rebase", "rebase-apply"],
+  ["merge", "MERGE_HEAD"],
+  ["cherry-pick", "CHERRY_PICK_HEAD"],
+  ["revert", "REVERT_HEAD"],
+];
+
+// gitがC言語形式で引用したパス（"a/x\"y" など）を元に戻す
+// core.quotePath=false でも、ダブルクォート・バックスラッシュ・制御文字を含むパスは引用される
+function unquoteGitPath(value: string): string {
+  if (!value.startsWith('"') || !value.endsWith('"') || value.length < 2) {
+    return value;
+  }
+
+  const escapes: Record<string, number> = {
+    a: 7,
+    b: 8,
+    t: 9,
+    n: 10,
+    v: 11,
+    f: 12,
+    r: 13,
+    '"': 34,
+    "\\": 92,
+  };
+  // 8進数のエスケープはUTF-8のバイト列を表すため、バイト単位で復元してからデコード
+  const bytes: number[] = [];
+  const body = value.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i] ?? "";
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char, "utf8"));
+      continue;
+    }
+    const next = body[i + 1] ?? "";
+    const octal = body.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString("utf8");
+}
+
+// 差分のヘッダー行のパス（引用されている場合がある）から a/ や b/ の接頭辞を除く
+// 空白を含むパスの場合、---/+++ 行の末尾には区切りのタブが付く
+function stripDiffPathPrefix(value: string, prefix: "a/" | "b/"): string {
+  const unquoted = unquoteGitPath(value.replace(/\t$/, ""));
+  return unquoted.startsWith(prefix) ? unquoted.slice(prefix.length) : unquoted;
+}
+
+// "diff --git" 行から変更前・変更後のパスを取得
+function parseDiffGitPaths(line: string): { oldPath: string; newPath: string } | null {
+  const rest = line.slice("diff --git ".length);
+  const quoted = /"(?:[^"\\]|\\.)*"/.source;
+  const match =
+    rest.match(new RegExp(`^(${quoted}) (${quoted})$`)) ??
+    rest.match(new RegExp(`^(${quoted}) (b/.*)$`)) ??
+    rest.match(new RegExp(`^(a/.*) (${quoted})$`)) ??
+    rest.match(/^(a\/.*) (b\/.*)$/);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+  return {
+    oldPath: stripDiffPathPrefix(match[1], "a/"),
+    newPath: stripDiffPathPrefix(match[2], "b/"),
+  };
+}
+
+// unified diff 形式の差分をファイル・ハンク・行に解析
+function parseUnifiedDiff(diff: string): GitDiffFile[] {
+  const files: GitDiffFile[] = [];
+  let file: GitDiffFile | null = null;
+  let hunk: GitDiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      // 通常は +++/--- 行やrename行で上書きされる（バイナリ等の場合のフォールバック）
+      file = {
+        path: parseDiffGitPaths(line)?.newPath ?? "",
+        oldPath: null,
+        status: "modified",
+        binary: false,
+        headerLines: [line],
+        hunks: [],
+      };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+    if (!file) continue;
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkHeader) {
+      hunk = {
+        header: line,
+        oldStart: Number(hunkHeader[1]),
+        oldLines: hunkHeader[2] === undefined ? 1 : Number(hunkHeader[2]),
+        newStart: Number(hunkHeader[3]),
+        newLines: hunkHeader[4] === undefined ? 1 : Number(hunkHeader[4]),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      continue;
+    }
+
+    if (!hunk) {
+      file.headerLines.push(line);
+      if (line.startsWith("new file mode")) {
+        file.status = "added";
+      } else if (line.startsWith("deleted file mode")) {
+        file.status = "deleted";
+      } else if (line.startsWith("rename from ") || line.startsWith("copy from ")) {
+        file.status = line.startsWith("rename") ? "renamed" : "copied";
+        file.oldPath = unquoteGitPath(line.replace(/^(rename|copy) from /, ""));
+      } else if (line.startsWith("rename to ") || line.startsWith("copy to ")) {
+        file.path = unquoteGitPath(line.replace(/^(rename|copy) to /, ""));
+      } else if (line.startsWith("+++ ") && line !== "+++ /dev/null") {
+        file.path = stripDiffPathPrefix(line.slice(4), "b/");
+      } else if (line.startsWith("--- ") && line !== "--- /dev/null" && file.status === "deleted") {
+        file.path = stripDiffPathPrefix(line.slice(4), "a/");
+      } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+        file.binary = true;
+      }
+      continue;
+    }
+
+    const marker = line[0];
+    const content = line.slice(1);
+    if (marker === " ") {
+      hunk.lines.push({ type: "context", content, oldLine: oldLine++, newLine: newLine++ });
+    } else if (marker === "-") {
+      hunk.lines.push({ type: "delete", content, oldLine: oldLine++, newLine: null });
+    } else if (marker === "+") {
+      hunk.lines.push({ type: "add", content, oldLine: null, newLine: newLine++ });
+    } else if (marker === "\\") {
+      // "\ No newline at end of file" は直前の行に対する注記
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous) previous.noNewline = true;
+    }
+  }
+
+  return files;
+}
+
+// ハンクから選択した変更行だけを残したハンクを作成（変更が残らない場合はnull）
+// 選択されなかった追加行は除外し、削除行はコンテキスト行として扱う
+// offset はそれまでに適用するハンクによる行数の増減
+function selectHunkLines(
+  hunk: GitDiffHunk,
+  isSelected: (line: GitDiffLine) => boolean,
+  offset: number,
+): GitDiffHunk | null {
+  const lines: GitDiffLine[] = [];
+  let changed = false;
+  for (const line of hunk.lines) {
+    if (line.type === "context") {
+      lines.push(line);
+    } else if (isSelected(line)) {
+      lines.push(line);
+      changed = true;
+    } else if (line.type === "delete") {
+      lines.push({ ...line, type: "context" });
+    }
+  }
+  if (!changed) {
+    return null;
+  }
+
+  const oldLines = lines.filter((line) => line.type !== "add").length;
+  const newLines = lines.filter((line) => line.type !== "delete").length;
+  // 行数が0の側の開始位置は「直前の行」を指すため、ハンク先頭の行位置に変換してからずらす
+  // （コンテキスト行がない場合、git applyはこの位置にハンクを適用する）
+  const firstLine = (hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart) + offset;
+  const newStart = newLines === 0 ? firstLine - 1 : firstLine;
+  return {
+    header: `@@ -${hunk.oldStart},${oldLines} +${newStart},${newLines} @@`,
+    oldStart: hunk.oldStart,
+    oldLines,
+    newStart,
+    newLines,
+    lines,
+  };
+}
+
+// ファイルのヘッダーとハンクからパッチを作成
+function buildPatch(file: GitDiffFile, hunks: GitDiffHunk[]): string {
+  const prefixes = { context: " ", add: "+", delete: "-" };
+  const lines = [...file.headerLines];
+  for (const hunk of hunks) {
+    lines.push(hunk.header);
+    for (const line of hunk.lines) {
+      lines.push(prefixes[line.type] + line.content);
+      if (line.noNewline) {
+        lines.push("\\ No newline at end of file");
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+// 履歴統合操作の結果を表示用のテキストに整形
+function formatIntegrationResult(result: GitIntegrationResult): string {
+  if (result.completed) {
+    return result.output;
+  }
+  const nextStep = result.resumable
+    ? "Resolve them, stage the files with git_add, then call git_continue (or git_abort)."
+    : "Resolve them and commit with git_commit, or call git_abort to discard the changes with git reset --merge.";
+  return (
+    `${result.output}\n\n` +
+    `${result.operation} stopped with conflicts in ${result.conflicts.length} file(s). ` +
+    `${nextStep}\n` +
+    `Conflicts:\n${JSON.stringify(result.conflicts, null, 2)}`
+  );
+}
+
+// コンフリクトマーカーを解析してコンフリクト箇所を抽出
+// diff3形式（|||||||）の場合は共通祖先（base）の内容も取得
+function parseConflictHunks(content: string): GitConflictHunk[] {
+  const hunks: GitConflictHunk[] = [];
+  const lines = content.split("\n");
+  let current: GitConflictHunk | null = null;
+  let section: "ours" | "base" | "theirs" = "ours";
+  const sections = { ours: [] as string[], base: [] as string[], theirs: [] as string[] };
+
+  lines.forEach((line, index) => {
+    if (!current) {
+      if (line.startsWith("<<<<<<<")) {
+        current = {
+          startLine: index + 1,
+          endLine: index + 1,
+          oursLabel: line.slice(8),
+          theirsLabel: "",
+          ours: "",
+          base: null,
+          theirs: "",
+        };
+        section = "ours";
+        sections.ours = [];
+        sections.base = [];
+        sections.theirs = [];
+      }
+      return;
+    }
+
+    if (section === "ours" && line.startsWith("|||||||")) {
+      section = "base";
+      current.base = "";
+    } else if (section !== "theirs" && line === "=======") {
+      section = "theirs";
+    } else if (section === "theirs" && line.startsWith(">>>>>>>")) {
+      current.endLine = index + 1;
+      current.theirsLabel = line.slice(8);
+      current.ours = sections.ours.join("\n");
+      current.base = current.base === null ? null : sections.base.join("\n");
+      current.theirs = sections.theirs.join("\n");
+      hunks.push(current);
+      current = null;
+    } else {
+      sections[section].push(line);
+    }
+  });
+
+  return hunks;
+}
+
+// リモートリポジトリの設定
+interface GitRemote {
+  name: string;
+  fetchUrl: string | null;
+  pushUrl: string | null;
+}
+
+// スタッシュのエントリ
+interface GitStashEntry {
+  ref: string;
+  hash: string;
+  date: string;
+  message: string;
+}
 
 // Gitコマンドラッパー
 class GitRepo {
@@ -53,7 +669,7 @@ class GitRepo {
   // 有効なGitリポジトリかどうかをチェックするシンプルなメソッド
   static async isValidRepo(repoPath: string): Promise<boolean> {
     try {
-      await execAsync("git rev-parse --is-inside-work-tree", { cwd: repoPath });
+      await runGit(repoPath, ["rev-parse", "--is-inside-work-tree"]);
       return true;
     } catch (error) {
       return false;
@@ -63,7 +679,7 @@ class GitRepo {
   // 新しいGitリポジトリを初期化
   static async init(repoPath: string): Promise<string> {
     try {
-      const { stdout } = await execAsync(`git init`, { cwd: repoPath });
+      const { stdout } = await runGit(repoPath, ["init"]);
       return stdout.trim();
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -71,190 +687,1031 @@ class GitRepo {
     }
   }
 
+  // リポジトリ内でgitコマンドを実行
+  private git(args: string[], options?: GitCommandOptions): Promise<GitCommandResult> {
+    return runGit(this.repoPath, args, options);
+  }
+
+  // ブランチ名を git check-ref-format --branch で検証
+  private async validateBranchName(branchName: string): Promise<void> {
+    assertNotOption(branchName, "branch name");
+    const { exitCode } = await this.git(["check-ref-format", "--branch", branchName], {
+      allowedExitCodes: [1, 128],
+    });
+    if (exitCode !== 0) {
+      throw new InvalidRefError(branchName, "branch name");
+    }
+  }
+
+  // タグ名を git check-ref-format で検証
+  private async validateTagName(tagName: string): Promise<void> {
+    assertNotOption(tagName, "tag name");
+    const { exitCode } = await this.git(["check-ref-format", `refs/tags/${tagName}`], {
+      allowedExitCodes: [1],
+    });
+    if (exitCode !== 0) {
+      throw new InvalidRefError(tagName, "tag name");
+    }
+  }
+
+  // 完全な参照名（refs/heads/main など）が存在するかを確認
+  private async refExists(fullRef: string): Promise<boolean> {
+    const { exitCode } = await this.git(["show-ref", "--verify", "--quiet", fullRef], {
+      allowedExitCodes: [1],
+    });
+    return exitCode === 0;
+  }
+
+  // リビジョンがコミットとして解決できることを確認
+  private async validateRevision(revision: string): Promise<void> {
+    assertNotOption(revision, "revision");
+    const { exitCode } = await this.git(
+      ["rev-parse", "--verify", "--quiet", `${revision}^{commit}`],
+      { allowedExitCodes: [1] },
+    );
+    if (exitCode !== 0) {
+      throw new RefNotFoundError("Revision", revision);
+    }
+  }
+
   // リポジトリの状態を取得
   async status(): Promise<string> {
-    const { stdout } = await execAsync("git status", { cwd: this.repoPath });
+    const { stdout } = await this.git(["status"]);
     return stdout;
   }
 
+  // リポジトリの状態を構造化して取得
+  async statusDetails(): Promise<GitStatusResult> {
+    const { stdout } = await this.git(["status", "--porcelain=v2", "--branch", "-z"]);
+
+    const result: GitStatusResult = {
+      branch: {
+        head: null,
+        oid: null,
+        upstream: null,
+        ahead: null,
+        behind: null,
+        detached: false,
+      },
+      staged: [],
+      unstaged: [],
+      conflicted: [],
+      untracked: [],
+      clean: true,
+    };
+
+    // -z 指定時はレコードがNUL区切りで、リネーム・コピーの場合は元のパスが次のレコードになる
+    const records = stdout.split("\0");
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i];
+      if (!record) continue;
+
+      if (record.startsWith("# ")) {
+        const [, key, ...rest] = record.split(" ");
+        const value = rest.join(" ");
+        if (key === "branch.oid") {
+          result.branch.oid = value === "(initial)" ? null : value;
+        } else if (key === "branch.head") {
+          result.branch.detached = value === "(detached)";
+          result.branch.head = result.branch.detached ? null : value;
+        } else if (key === "branch.upstream") {
+          result.branch.upstream = value;
+        } else if (key === "branch.ab") {
+          const match = value.match(/^\+(\d+) -(\d+)$/);
+          if (match) {
+            result.branch.ahead = Number(match[1]);
+            result.branch.behind = Number(match[2]);
+          }
+        }
+        continue;
+      }
+
+      const type = record[0];
+      if (type === "?") {
+        result.untracked.push(record.slice(2));
+      } else if (type === "1" || type === "2") {
+        // 1 <XY> <sub> <mH> <mI> <mW> <hH> <hI> [<X><score>] <path>
+        const fieldCount = type === "1" ? 8 : 9;
+        const fields = record.split(" ");
+        const xy = fields[1] ?? "..";
+        const path = fields.slice(fieldCount).join(" ");
+        const entry = (code: string): GitStatusEntry => ({
+          path,
+          status: STATUS_CODES[code] ?? code,
+        });
+        const renameEntry = (code: string): GitStatusEntry => {
+          const base = entry(code);
+          if (type === "2") {
+            base.origPath = records[i + 1];
+            base.similarity = Number((fields[8] ?? "").slice(1));
+          }
+          return base;
+        };
+
+        if (xy[0] !== ".") result.staged.push(renameEntry(xy[0] ?? ""));
+        if (xy[1] !== ".") result.unstaged.push(renameEntry(xy[1] ?? ""));
+        if (type === "2") i++;
+      } else if (type === "u") {
+        // u <XY> <sub> <m1> <m2> <m3> <mW> <h1> <h2> <h3> <path>
+        const fields = record.split(" ");
+        const xy = fields[1] ?? "";
+        result.conflicted.push({
+          path: fields.slice(10).join(" "),
+          status: CONFLICT_CODES[xy] ?? xy,
+        });
+      }
+    }
+
+    result.clean =
+      result.staged.length === 0 &&
+      result.unstaged.length === 0 &&
+      result.conflicted.length === 0 &&
+      result.untracked.length === 0;
+    return result;
+  }
+
+  // 差分の比較対象と表示オプションからgit diffの引数を作成
+  private diffArgs(source: GitDiffSource, options: GitDiffOptions): string[] {
+    // 解析できるよう、ユーザー設定に関わらず色なし・a/ b/ プレフィックスで出力
+    const args = [
+      "-c",
+      "core.quotePath=false",
+      "diff",
+      "--no-color",
+      "--no-ext-diff",
+      "--src-prefix=a/",
+      "--dst-prefix=b/",
+    ];
+    if (options.contextLines !== undefined) {
+      args.push(`--unified=${options.contextLines}`);
+    }
+    if (options.findRenames !== undefined) {
+      args.push(options.findRenames ? "--find-renames" : "--no-renames");
+    }
+    if (options.stat) {
+      args.push(`--${options.stat}`);
+    }
+    if (options.wordDiff) {
+      args.push("--word-diff=plain");
+    }
+
+    if (source === "staged") {
+      args.push("--cached");
+    } else if (source !== "unstaged") {
+      // "main..feature" のような範囲指定も受け付けるため、オプションでないことのみ検証
+      assertNotOption(source.target, "diff target");
+      args.push(source.target);
+    }
+    return [...args, "--", ...(options.paths ?? [])];
+  }
+
   // ステージングされていない変更を表示
-  async diffUnstaged(): Promise<string> {
-    const { stdout } = await execAsync("git diff", { cwd: this.repoPath });
+  async diffUnstaged(options: GitDiffOptions = {}): Promise<string> {
+    const { stdout } = await this.git(this.diffArgs("unstaged", options));
     return stdout;
   }
 
   // ステージングされた変更を表示
-  async diffStaged(): Promise<string> {
-    const { stdout } = await execAsync("git diff --cached", { cwd: this.repoPath });
+  async diffStaged(options: GitDiffOptions = {}): Promise<string> {
+    const { stdout } = await this.git(this.diffArgs("staged", options));
     return stdout;
   }
 
   // 特定のターゲットとの差分を表示
-  async diff(target: string): Promise<string> {
-    const { stdout } = await execAsync(`git diff ${target}`, { cwd: this.repoPath });
+  async diff(target: string, options: GitDiffOptions = {}): Promise<string> {
+    const { stdout } = await this.git(this.diffArgs({ target }, options));
     return stdout;
   }
 
+  // 差分をファイル・ハンク・行に構造化して取得（statを指定した場合はハンクを省略）
+  async diffFiles(
+    source: GitDiffSource,
+    options: GitDiffOptions = {},
+    page: { offset?: number; limit?: number } = {},
+  ): Promise<GitDiffResult> {
+    if (options.wordDiff) {
+      throw new GitError("word_diff cannot be combined with format 'json'");
+    }
+    const { stdout } = await this.git(this.diffArgs(source, { ...options, stat: undefined }));
+    const files = parseUnifiedDiff(stdout);
+
+    const offset = page.offset ?? 0;
+    const end = page.limit === undefined ? undefined : offset + page.limit;
+    return {
+      totalFiles: files.length,
+      offset,
+      files: files.slice(offset, end).map((file) => {
+        const lines = file.hunks.flatMap((hunk) => hunk.lines);
+        return {
+          path: file.path,
+          oldPath: file.oldPath,
+          status: file.status,
+          binary: file.binary,
+          additions: lines.filter((line) => line.type === "add").length,
+          deletions: lines.filter((line) => line.type === "delete").length,
+          ...(options.stat ? {} : { hunks: file.hunks }),
+        };
+      }),
+    };
+  }
+
   // 変更をコミット
   async commit(message: string): Promise<string> {
-    const { stdout } = await execAsync(`git commit -m "${message.replace(/"/g, '\\"')}"`, {
-      cwd: this.repoPath,
-    });
-    // 出力からコミットハッシュを抽出
-    const commitHashMatch = stdout.match(/\[([a-f0-9]{7,40})\]/);
-    const commitHash = commitHashMatch ? commitHashMatch[1] : "unknown";
-    return `Changes committed successfully with hash ${commitHash}`;
+    await this.git(["commit", "-m", message]);
+    const { stdout } = await this.git(["rev-parse", "--short", "HEAD"]);
+    return `Changes committed successfully with hash ${stdout.trim()}`;
   }
 
   // ファイルをステージングエリアに追加
   async add(files: string[]): Promise<string> {
-    const fileList = files.map((file) => `"${file.replace(/"/g, '\\"')}"`).join(" ");
-    await execAsync(`git add ${fileList}`, { cwd: this.repoPath });
+    await this.git(["add", "--", ...files]);
     return "Files staged successfully";
   }
 
-  // ステージングされた変更をリセット
-  async reset(): Promise<string> {
-    await execAsync("git reset", { cwd: this.repoPath });
-    return "All staged changes reset";
+  // ステージングされた変更をリセット（パス指定、またはモードと対象コミットを指定してHEADを移動）
+  async reset(
+    options: {
+      paths?: string[];
+      mode?: "soft" | "mixed" | "hard";
+      target?: string;
+      confirm?: boolean;
+    } = {},
+  ): Promise<string> {
+    const mode = options.mode ?? "mixed";
+    // 対象コミットを指定しない場合は、コミットがまだないリポジトリでも使えるよう検証しない
+    if (options.target) {
+      await this.validateRevision(options.target);
+    }
+
+    if (options.paths && options.paths.length > 0) {
+      if (mode !== "mixed") {
+        throw new GitError(`Cannot use ${mode} mode with paths (only mixed is supported)`);
+      }
+      await this.git([
+        "reset",
+        "--quiet",
+        ...(options.target ? [options.target] : []),
+        "--",
+        ...options.paths,
+      ]);
+      return (
+        `Unstaged changes in ${options.paths.join(", ")}` +
+        (options.target ? ` (reset to ${options.target})` : "")
+      );
+    }
+
+    if (!options.target && mode === "mixed") {
+      await this.git(["reset", "--quiet"]);
+      return "All staged changes reset";
+    }
+    const target = options.target ?? "HEAD";
+
+    // HEADを移動する場合やハードリセットは変更が失われうるため、確認を必須とする
+    const { stdout: headHash } = await this.git(["rev-parse", "HEAD"]);
+    const { stdout: targetHash } = await this.git(["rev-parse", `${target}^{commit}`]);
+    const movesHead = headHash.trim() !== targetHash.trim();
+    if ((mode === "hard" || movesHead) && !options.confirm) {
+      const { stdout: commits } = await this.git([
+        "log",
+        "--oneline",
+        `${targetHash.trim()}..${headHash.trim()}`,
+      ]);
+      const { stdout: changes } =
+        mode === "hard" ? await this.git(["diff", "--stat", targetHash.trim()]) : { stdout: "" };
+      throw new GitError(
+        `Reset --${mode} to ${target} requires confirm: true.` +
+          (commits.trim()
+            ? `\nCommits that will be removed from the branch:\n${commits.trim()}`
+            : "") +
+          (changes.trim()
+            ? `\nChanges that will be discarded from the working tree:\n${changes.trimEnd()}`
+            : ""),
+      );
+    }
+
+    await this.git(["reset", "--quiet", `--${mode}`, target]);
+    return `Reset (${mode}) to ${target}`;
+  }
+
+  // ファイルの未ステージの変更のうち、指定したハンクまたは行だけをステージング
+  async addHunks(
+    file: string,
+    selection: { hunks?: number[]; lines?: { start: number; end: number }[] },
+    contextLines?: number,
+  ): Promise<string> {
+    const hasHunks = selection.hunks && selection.hunks.length > 0;
+    const hasLines = selection.lines && selection.lines.length > 0;
+    if (!hasHunks && !hasLines) {
+      throw new GitError("Must specify hunks or lines to stage");
+    }
+
+    // ハンクの番号が git_diff_unstaged と一致するよう、同じコンテキスト行数で差分を取得
+    const { stdout } = await this.git(this.diffArgs("unstaged", { paths: [file], contextLines }));
+    const [diffFile] = parseUnifiedDiff(stdout);
+    if (!diffFile || diffFile.hunks.length === 0) {
+      throw new GitError(
+        `No unstaged text changes in '${file}' (use git_add for new or binary files)`,
+      );
+    }
+
+    const invalid = (selection.hunks ?? []).filter(
+      (index) => !Number.isInteger(index) || index < 0 || index >= diffFile.hunks.length,
+    );
+    if (invalid.length > 0) {
+      throw new GitError(
+        `Invalid hunk index: ${invalid.join(", ")} ('${file}' has ${diffFile.hunks.length} hunk(s), indexed from 0)`,
+      );
+    }
+
+    // 追加行は作業ツリーでの行番号、削除行はステージ済みの内容での行番号で判定
+    const inLineRanges = (line: GitDiffLine) => {
+      const lineNumber = line.type === "add" ? line.newLine : line.oldLine;
+      return (selection.lines ?? []).some(
+        (range) => lineNumber !== null && lineNumber >= range.start && lineNumber <= range.end,
+      );
+    };
+
+    const selected: GitDiffHunk[] = [];
+    let offset = 0;
+    diffFile.hunks.forEach((hunk, index) => {
+      const wholeHunk = selection.hunks?.includes(index) ?? false;
+      const partial = selectHunkLines(hunk, (line) => wholeHunk || inLineRanges(line), offset);
+      if (partial) {
+        selected.push(partial);
+        offset += partial.newLines - partial.oldLines;
+      }
+    });
+    if (selected.length === 0) {
+      throw new GitError(`No changed lines in '${file}' match the given line ranges`);
+    }
+
+    const applyArgs =
+      contextLines === undefined
+        ? []
+        : [`-C${contextLines}`, ...(contextLines === 0 ? ["--unidiff-zero"] : [])];
+    await this.git(["apply", "--cached", "--recount", ...applyArgs], {
+      input: buildPatch(diffFile, selected),
+    });
+    const changedLines = selected
+      .flatMap((hunk) => hunk.lines)
+      .filter((line) => line.type !== "context").length;
+    return `Staged ${selected.length} hunk(s) (${changedLines} changed line(s)) of '${diffFile.path}'`;
   }
 
   // コミットログを表示
   async log(maxCount: number = 10): Promise<string[]> {
-    const { stdout } = await execAsync(
-      `git log -n ${maxCount} --pretty=format:"Commit: %H%nAuthor: %an <%ae>%nDate: %ad%nMessage: %s%n"`,
-      { cwd: this.repoPath },
-    );
+    const { stdout } = await this.git([
+      "log",
+      `--max-count=${maxCount}`,
+      "--pretty=format:Commit: %H%nAuthor: %an <%ae>%nDate: %ad%nMessage: %s%n",
+    ]);
 
     return stdout.split("\n\n").filter((entry) => entry.trim() !== "");
   }
 
-  // 新しいブランチを作成
-  async createBranch(branchName: string, baseBranch?: string): Promise<string> {
-    if (baseBranch) {
-      await execAsync(`git branch ${branchName} ${baseBranch}`, { cwd: this.repoPath });
-      return `Created branch '${branchName}' from '${baseBranch}'`;
-    } else {
-      const { stdout: currentBranch } = await execAsync("git branch --show-current", {
-        cwd: this.repoPath,
-      });
-      await execAsync(`git branch ${branchName}`, { cwd: this.repoPath });
-      return `Created branch '${branchName}' from '${currentBranch.trim()}'`;
+  // コミットログを構造化して取得
+  async logEntries(maxCount: number = 10): Promise<GitLogEntry[]> {
+    const { stdout } = await this.git([
+      "log",
+      `--max-count=${maxCount}`,
+      `--pretty=format:${LOG_FORMAT}%x1e`,
+    ]);
+
+    return stdout
+      .split("\x1e")
+      .map((record) => record.replace(/^\n/, ""))
+      .filter((record) => record !== "")
+      .map((record) => parseLogFields(record.split("\0")));
+  }
+
+  // 設定済みのリモート名であることを確認
+  private async validateRemote(remote: string): Promise<void> {
+    assertNotOption(remote, "remote name");
+    const remotes = await this.listRemotes();
+    if (!remotes.some((entry) => entry.name === remote)) {
+      throw new RefNotFoundError("Remote", remote);
     }
   }
 
-  // ブランチをチェックアウト
-  async checkout(branchName: string): Promise<string> {
-    await execAsync(`git checkout ${branchName}`, { cwd: this.repoPath });
-    return `Switched to branch '${branchName}'`;
+  // 現在のブランチと上流ブランチとの差分（ahead/behind）を要約
+  async trackingSummary(): Promise<string> {
+    const { branch } = await this.statusDetails();
+    if (branch.detached) {
+      return "HEAD is detached";
+    }
+    if (!branch.upstream) {
+      return `Branch '${branch.head}' has no upstream`;
+    }
+    return (
+      `Branch '${branch.head}' tracking '${branch.upstream}': ` +
+      `ahead ${branch.ahead ?? 0}, behind ${branch.behind ?? 0}`
+    );
   }
 
-  // コミットの詳細を表示
-  async show(revision: string): Promise<string> {
-    // コミット詳細を取得
-    const { stdout: commitDetails } = await execAsync(
-      `git show ${revision} --pretty=format:"Commit: %H%nAuthor: %an <%ae>%nDate: %ad%nMessage: %s%n"`,
-      { cwd: this.repoPath },
+  // リモートから取得
+  async fetch(remote?: string, options: { all?: boolean; prune?: boolean } = {}): Promise<string> {
+    if (remote) {
+      await this.validateRemote(remote);
+    }
+    const { stdout, stderr } = await this.git([
+      "fetch",
+      ...(options.prune ? ["--prune"] : []),
+      ...(options.all ? ["--all"] : remote ? [remote] : []),
+    ]);
+    const output = (stdout + stderr).trim();
+    return (
+      `Fetched ${options.all ? "all remotes" : (remote ?? "default remote")}` +
+      (output ? `\n${output}` : "") +
+      `\n${await this.trackingSummary()}`
     );
+  }
 
-    // 差分を取得
-    const { stdout: diff } = await execAsync(`git show ${revision} --format=""`, {
-      cwd: this.repoPath,
-    });
+  // リモートの変更を取り込み（マージまたはリベース）
+  async pull(
+    remote?: string,
+    branch?: string,
+    mode: "merge" | "rebase" = "merge",
+    ffOnly: boolean = false,
+  ): Promise<string> {
+    if (branch && !remote) {
+      throw new GitError("Remote must be specified when pulling a specific branch");
+    }
+    if (remote) {
+      await this.validateRemote(remote);
+    }
+    if (branch) {
+      await this.validateBranchName(branch);
+    }
 
-    return commitDetails + "\n" + diff;
+    const { stdout, stderr } = await this.git([
+      "pull",
+      mode === "rebase" ? "--rebase" : "--no-rebase",
+      ...(ffOnly ? ["--ff-only"] : []),
+      "--no-edit",
+      ...(remote ? [remote] : []),
+      ...(branch ? [branch] : []),
+    ]);
+    const output = (stdout + stderr).trim();
+    return (
+      `Pulled with ${mode}` + (output ? `\n${output}` : "") + `\n${await this.trackingSummary()}`
+    );
   }
 
-  // 軽量タグを作成
-  async createTag(tagName: string, target?: string): Promise<string> {
-    try {
-      const targetRef = target || "HEAD";
-      await execAsync(`git tag "${tagName.replace(/"/g, '\\"')}" ${targetRef}`, {
-        cwd: this.repoPath,
-      });
-      return `Created tag '${tagName}' at ${targetRef}`;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      if (errorMsg.includes("already exists")) {
-        throw new Error(`Tag '${tagName}' already exists`);
+  // リモートへ送信（強制送信は --force-with-lease のみ許可）
+  async push(
+    remote?: string,
+    branch?: string,
+    options: { setUpstream?: boolean; forceWithLease?: boolean } = {},
+  ): Promise<string> {
+    let targetRemote = remote;
+    let targetBranch = branch;
+    if (options.setUpstream) {
+      // 上流を設定する場合はリモートとブランチを明示する必要がある
+      targetRemote ??= "origin";
+      if (!targetBranch) {
+        const { stdout } = await this.git(["branch", "--show-current"]);
+        targetBranch = stdout.trim();
+        if (!targetBranch) {
+          throw new GitError("Cannot set upstream while HEAD is detached");
+        }
       }
-      throw error;
     }
+    if (targetBranch && !targetRemote) {
+      throw new GitError("Remote must be specified when pushing a specific branch");
+    }
+    if (targetRemote) {
+      await this.validateRemote(targetRemote);
+    }
+    if (targetBranch) {
+      await this.validateBranchName(targetBranch);
+    }
+
+    const { stdout, stderr } = await this.git([
+      "push",
+      "--porcelain",
+      ...(options.setUpstream ? ["--set-upstream"] : []),
+      ...(options.forceWithLease ? ["--force-with-lease"] : []),
+      ...(targetRemote ? [targetRemote] : []),
+      ...(targetBranch ? [targetBranch] : []),
+    ]);
+    const output = (stdout + stderr).trim();
+    return (
+      `Pushed${targetBranch ? ` '${targetBranch}'` : ""}${targetRemote ? ` to ${targetRemote}` : ""}` +
+      (output ? `\n${output}` : "") +
+      `\n${await this.trackingSummary()}`
+    );
   }
 
-  // 注釈付きタグを作成
-  async createAnnotatedTag(tagName: string, message: string, target?: string): Promise<string> {
-    try {
-      const targetRef = target || "HEAD";
-      // メッセージ内のダブルクォートをエスケープ
-      const escapedMessage = message.replace(/"/g, '\\"');
-      await execAsync(
-        `git tag -a "${tagName.replace(/"/g, '\\"')}" -m "${escapedMessage}" ${targetRef}`,
-        { cwd: this.repoPath },
-      );
-      return `Created annotated tag '${tagName}' at ${targetRef} with message: ${message}`;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      if (errorMsg.includes("already exists")) {
-        throw new Error(`Tag '${tagName}' already exists`);
+  // リモートの一覧を取得
+  async listRemotes(): Promise<GitRemote[]> {
+    const { stdout } = await this.git(["remote", "-v"]);
+    const remotes = new Map<string, GitRemote>();
+    for (const line of stdout.split("\n")) {
+      const match = line.match(/^(\S+)\t(.+) \((fetch|push)\)$/);
+      if (!match) continue;
+      const [, name = "", url = "", type] = match;
+      const remote = remotes.get(name) ?? { name, fetchUrl: null, pushUrl: null };
+      if (type === "fetch") {
+        remote.fetchUrl = url;
+      } else {
+        remote.pushUrl = url;
       }
-      throw error;
+      remotes.set(name, remote);
     }
+    return Array.from(remotes.values());
   }
 
-  // タグの一覧を取得
-  async listTags(pattern?: string): Promise<string[]> {
-    try {
-      const patternArg = pattern ? `"${pattern.replace(/"/g, '\\"')}"` : "";
-      const { stdout } = await execAsync(`git tag -l ${patternArg}`, {
-        cwd: this.repoPath,
-      });
-      return stdout
-        .split("\n")
-        .filter((tag) => tag.trim() !== "")
-        .map((tag) => tag.trim());
-    } catch (error) {
-      return [];
+  // リモートを追加
+  async addRemote(name: string, url: string): Promise<string> {
+    assertNotOption(name, "remote name");
+    assertNotOption(url, "remote URL");
+    const { exitCode } = await this.git(["check-ref-format", `refs/remotes/${name}/HEAD`], {
+      allowedExitCodes: [1],
+    });
+    if (exitCode !== 0) {
+      throw new InvalidRefError(name, "remote name");
     }
+    if ((await this.listRemotes()).some((remote) => remote.name === name)) {
+      throw new RefAlreadyExistsError("Remote", name);
+    }
+
+    await this.git(["remote", "add", "--", name, url]);
+    return `Added remote '${name}' (${url})`;
   }
 
-  // タグを削除
-  async deleteTag(tagName: string): Promise<string> {
-    try {
-      await execAsync(`git tag -d "${tagName.replace(/"/g, '\\"')}"`, {
-        cwd: this.repoPath,
-      });
-      return `Deleted tag '${tagName}'`;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      if (errorMsg.includes("not found")) {
-        throw new Error(`Tag '${tagName}' not found`);
-      }
-      throw error;
+  // リモートを削除
+  async removeRemote(name: string): Promise<string> {
+    await this.validateRemote(name);
+    await this.git(["remote", "remove", name]);
+    return `Removed remote '${name}'`;
+  }
+
+  // スタッシュの指定（"stash@{N}" または番号）を検証して正規化
+  private async resolveStash(stash: string | number = 0): Promise<string> {
+    const ref = typeof stash === "number" || /^\d+$/.test(stash) ? `stash@{${stash}}` : stash;
+    if (!/^stash@\{\d+\}$/.test(ref)) {
+      throw new InvalidRefError(String(stash), "stash reference (expected e.g. 'stash@{0}' or 0)");
+    }
+    const { exitCode } = await this.git(["rev-parse", "--verify", "--quiet", ref], {
+      allowedExitCodes: [1, 128],
+    });
+    if (exitCode !== 0) {
+      throw new RefNotFoundError("Stash", ref);
     }
+    return ref;
   }
 
-  // タグの詳細を表示（注釈付きタグの場合はメッセージも表示）
+  // 作業中の変更をスタッシュに退避
+  async stashPush(
+    message?: string,
+    options: { includeUntracked?: boolean; paths?: string[] } = {},
+  ): Promise<string> {
+    const { stdout } = await this.git([
+      "stash",
+      "push",
+      ...(message ? ["-m", message] : []),
+      ...(options.includeUntracked ? ["--include-untracked"] : []),
+      ...(options.paths && options.paths.length > 0 ? ["--", ...options.paths] : []),
+    ]);
+    return stdout.trim();
+  }
+
+  // スタッシュの一覧を取得
+  async stashList(): Promise<GitStashEntry[]> {
+    const { stdout } = await this.git(["stash", "list", "--format=%gd%x00%H%x00%cI%x00%gs"]);
+    return stdout
+      .split("\n")
+      .filter((line) => line !== "")
+      .map((line) => {
+        const [ref = "", hash = "", date = "", message = ""] = line.split("\0");
+        return { ref, hash, date, message };
+      });
+  }
+
+  // スタッシュの内容を表示
+  async stashShow(stash?: string | number, patch: boolean = true): Promise<string> {
+    const ref = await this.resolveStash(stash);
+    const { stdout } = await this.git([
+      "stash",
+      "show",
+      "--include-untracked",
+      patch ? "--patch" : "--stat",
+      ref,
+    ]);
+    return stdout;
+  }
+
+  // スタッシュを作業ツリーに適用（popの場合は適用後に削除）
+  async stashApply(
+    stash?: string | number,
+    options: { pop?: boolean; restoreIndex?: boolean } = {},
+  ): Promise<string> {
+    const ref = await this.resolveStash(stash);
+    const { stdout } = await this.git([
+      "stash",
+      options.pop ? "pop" : "apply",
+      ...(options.restoreIndex ? ["--index"] : []),
+      ref,
+    ]);
+    return `${options.pop ? "Popped" : "Applied"} ${ref}\n${stdout.trim()}`;
+  }
+
+  // スタッシュを削除
+  async stashDrop(stash?: string | number): Promise<string> {
+    const ref = await this.resolveStash(stash);
+    const { stdout } = await this.git(["stash", "drop", ref]);
+    return stdout.trim();
+  }
+
+  // 進行中のマージ・リベース・チェリーピック・リバートを判定
+  async operationInProgress(): Promise<GitOperation | null> {
+    for (const [operation, stateFile] of OPERATION_STATE_FILES) {
+      const { stdout } = await this.git(["rev-parse", "--git-path", stateFile]);
+      const exists = await fs
+        .access(path.resolve(this.repoPath, stdout.trim()))
+        .then(() => true)
+        .catch(() => false);
+      if (exists) {
+        return operation;
+      }
+    }
+    return null;
+  }
+
+  // コンフリクトしているファイルとコンフリクト箇所を取得
+  async conflicts(): Promise<GitConflictFile[]> {
+    const { conflicted } = await this.statusDetails();
+    if (conflicted.length === 0) {
+      return [];
+    }
+
+    const { stdout: topLevel } = await this.git(["rev-parse", "--show-toplevel"]);
+    return Promise.all(
+      conflicted.map(async (entry) => {
+        // 片側で削除された場合などはファイルが存在しないため、コンフリクト箇所は空になる
+        const content = await fs
+          .readFile(path.join(topLevel.trim(), entry.path), "utf8")
+          .catch(() => "");
+        return { path: entry.path, status: entry.status, hunks: parseConflictHunks(content) };
+      }),
+    );
+  }
+
+  // 履歴統合操作を実行し、コンフリクトで停止した場合はその内容を返す
+  private async integrate(operation: GitOperation, args: string[]): Promise<GitIntegrationResult> {
+    try {
+      // ours/theirsに加えて共通祖先の内容も得られるようdiff3形式でマーカーを出力
+      const { stdout, stderr } = await this.git([
+        "-c",
+        "merge.conflictStyle=diff3",
+        "-c",
+        "core.editor=true",
+        ...args,
+      ]);
+      // 進捗表示の行消去シーケンスを除去
+      const output = (stdout + stderr).replace(/\x1b\[K/g, "").trim();
+      return { operation, completed: true, resumable: false, output, conflicts: [] };
+    } catch (error) {
+      if (!(error instanceof GitCommandError)) throw error;
+      // squashマージや--no-commitのチェリーピックはMERGE_HEAD等を残さないため、
+      // 未マージのエントリの有無でコンフリクトを判定する
+      const conflicts = await this.conflicts();
+      if (conflicts.length === 0) throw error;
+      return {
+        operation,
+        completed: false,
+        resumable: (await this.operationInProgress()) !== null,
+        output: (error.stdout + error.stderr).trim(),
+        conflicts,
+      };
+    }
+  }
+
+  // ブランチをマージ
+  async merge(
+    branch: string,
+    options: { fastForward?: "auto" | "only" | "never"; squash?: boolean; message?: string } = {},
+  ): Promise<GitIntegrationResult> {
+    await this.validateRevision(branch);
+    return this.integrate("merge", [
+      "merge",
+      "--no-edit",
+      ...(options.fastForward === "only" ? ["--ff-only"] : []),
+      ...(options.fastForward === "never" ? ["--no-ff"] : []),
+      ...(options.squash ? ["--squash"] : []),
+      ...(options.message ? ["-m", options.message] : []),
+      branch,
+    ]);
+  }
+
+  // 現在のブランチを別のブランチ上にリベース（非対話）
+  async rebase(upstream: string, onto?: string): Promise<GitIntegrationResult> {
+    await this.validateRevision(upstream);
+    if (onto) {
+      await this.validateRevision(onto);
+    }
+    return this.integrate("rebase", ["rebase", ...(onto ? ["--onto", onto] : []), upstream]);
+  }
+
+  // コミットを現在のブランチに適用
+  async cherryPick(
+    commits: string[],
+    options: { noCommit?: boolean; mainline?: number } = {},
+  ): Promise<GitIntegrationResult> {
+    if (commits.length === 0) {
+      throw new GitError("Must specify at least one commit to cherry-pick");
+    }
+    for (const commit of commits) {
+      await this.validateRevision(commit);
+    }
+    return this.integrate("cherry-pick", [
+      "cherry-pick",
+      ...(options.noCommit ? ["--no-commit"] : []),
+      ...(options.mainline !== undefined ? ["-m", String(options.mainline)] : []),
+      ...commits,
+    ]);
+  }
+
+  // 進行中の操作を中止
+  async abort(): Promise<string> {
+    const operation = await this.operationInProgress();
+    if (!operation) {
+      // squashマージなどで進行中の状態が残らずにコンフリクトした場合は、マージ前の状態に戻す
+      const { conflicted } = await this.statusDetails();
+      if (conflicted.length > 0) {
+        await this.git(["reset", "--merge"]);
+        return `Discarded conflicted changes in ${conflicted.length} file(s) with git reset --merge`;
+      }
+      throw new GitError("No merge, rebase, cherry-pick or revert in progress");
+    }
+    await this.git([operation, "--abort"]);
+    return `Aborted ${operation}`;
+  }
+
+  // コンフリクト解消後に進行中の操作を再開
+  async continue(): Promise<GitIntegrationResult> {
+    const operation = await this.operationInProgress();
+    if (!operation) {
+      throw new GitError(
+        "No merge, rebase, cherry-pick or revert in progress (after a squash merge, commit the resolved changes with git_commit)",
+      );
+    }
+
+    const conflicts = await this.conflicts();
+    if (conflicts.length > 0) {
+      return {
+        operation,
+        completed: false,
+        resumable: true,
+        output: "Unresolved conflicts remain (stage resolved files with git_add)",
+        conflicts,
+      };
+    }
+    return this.integrate(operation, [operation, "--continue"]);
+  }
+
+  // ファイルの各行を最後に変更したコミットを取得（git blame --line-porcelain の解析結果）
+  async blame(
+    file: string,
+    options: {
+      startLine?: number;
+      endLine?: number;
+      ignoreWhitespace?: boolean;
+      revision?: string;
+    } = {},
+  ): Promise<GitBlameLine[]> {
+    if (options.revision) {
+      await this.validateRevision(options.revision);
+    }
+    const hasRange = options.startLine !== undefined || options.endLine !== undefined;
+
+    const { stdout } = await this.git([
+      "blame",
+      "--line-porcelain",
+      ...(options.ignoreWhitespace ? ["-w"] : []),
+      ...(hasRange ? ["-L", `${options.startLine ?? 1},${options.endLine ?? ""}`] : []),
+      ...(options.revision ? [options.revision] : []),
+      "--",
+      file,
+    ]);
+
+    const lines: GitBlameLine[] = [];
+    let current: Partial<GitBlameLine> = {};
+    for (const line of stdout.split("\n")) {
+      // 行の内容はタブで始まり、その行の情報の終わりを示す
+      if (line.startsWith("\t")) {
+        lines.push({
+          line: current.line ?? 0,
+          commit: current.commit ?? "",
+          originalLine: current.originalLine ?? 0,
+          originalPath: current.originalPath ?? file,
+          author: current.author ?? "",
+          authorEmail: current.authorEmail ?? "",
+          date: current.date ?? "",
+          summary: current.summary ?? "",
+          content: line.slice(1),
+        });
+        current = {};
+        continue;
+      }
+
+      const header = line.match(/^([0-9a-f]{40,64}) (\d+) (\d+)/);
+      if (header) {
+        current.commit = header[1];
+        current.originalLine = Number(header[2]);
+        current.line = Number(header[3]);
+        continue;
+      }
+
+      const separator = line.indexOf(" ");
+      const key = line.slice(0, separator);
+      const value = line.slice(separator + 1);
+      if (key === "author") {
+        current.author = value;
+      } else if (key === "author-mail") {
+        current.authorEmail = value.replace(/^<|>$/g, "");
+      } else if (key === "author-time") {
+        current.date = new Date(Number(value) * 1000).toISOString();
+      } else if (key === "summary") {
+        current.summary = value;
+      } else if (key === "filename") {
+        current.originalPath = value;
+      }
+    }
+    return lines;
+  }
+
+  // ファイルの変更履歴を取得（リネームを追跡し、各コミットでの差分を含む）
+  async fileHistory(
+    file: string,
+    options: { maxCount?: number; patch?: boolean } = {},
+  ): Promise<GitFileHistoryEntry[]> {
+    const { stdout } = await this.git([
+      "-c",
+      "core.quotePath=false",
+      "log",
+      "--follow",
+      `--max-count=${options.maxCount ?? 10}`,
+      `--pretty=format:%x1e${LOG_FORMAT}%x00`,
+      "--name-status",
+      "--",
+      file,
+    ]);
+
+    const entries: GitFileHistoryEntry[] = [];
+    for (const record of stdout.split("\x1e")) {
+      if (record === "") continue;
+      const fields = record.split("\0");
+      // フォーマットの後にそのコミットでの変更種別とパス（リネーム時は旧パスも）が続く
+      const nameStatus = fields.slice(11).join("").trim().split("\n")[0] ?? "";
+      const [status = "", ...paths] = nameStatus.split("\t");
+      const code = status.charAt(0);
+      entries.push({
+        ...parseLogFields(fields.slice(0, 11)),
+        path: paths[paths.length - 1] ?? file,
+        status: STATUS_CODES[code] ?? code,
+        ...(paths.length > 1 ? { previousPath: paths[0] } : {}),
+      });
+    }
+
+    if (options.patch ?? true) {
+      for (const entry of entries) {
+        const paths = entry.previousPath ? [entry.previousPath, entry.path] : [entry.path];
+        const { stdout: diff } = await this.git([
+          "show",
+          "--format=",
+          "--find-renames",
+          entry.hash,
+          "--",
+          ...paths,
+        ]);
+        entry.diff = diff;
+      }
+    }
+    return entries;
+  }
+
+  // 新しいブランチを作成
+  async createBranch(branchName: string, baseBranch?: string): Promise<string> {
+    await this.validateBranchName(branchName);
+    if (await this.refExists(`refs/heads/${branchName}`)) {
+      throw new RefAlreadyExistsError("Branch", branchName);
+    }
+
+    if (baseBranch) {
+      await this.validateRevision(baseBranch);
+      await this.git(["branch", branchName, baseBranch]);
+      return `Created branch '${branchName}' from '${baseBranch}'`;
+    } else {
+      const { stdout: currentBranch } = await this.git(["branch", "--show-current"]);
+      await this.git(["branch", branchName]);
+      return `Created branch '${branchName}' from '${currentBranch.trim()}'`;
+    }
+  }
+
+  // ブランチをチェックアウト
+  async checkout(branchName: string): Promise<string> {
+    // リモートにのみ存在するブランチは、gitがローカルの追跡ブランチを作成して切り替える
+    assertNotOption(branchName, "revision");
+    const { stdout: remoteBranches } = await this.git([
+      "for-each-ref",
+      "--format=%(refname)",
+      `refs/remotes/*/${branchName}`,
+    ]);
+    if (!remoteBranches.trim()) {
+      await this.validateRevision(branchName);
+    }
+    // "--" を付けて同名のファイルパスと区別
+    await this.git(["checkout", branchName, "--"]);
+    return `Switched to branch '${branchName}'`;
+  }
+
+  // コミットの詳細を表示
+  async show(revision: string): Promise<string> {
+    assertNotOption(revision, "revision");
+
+    // コミット詳細を取得
+    const { stdout: commitDetails } = await this.git([
+      "show",
+      revision,
+      "--pretty=format:Commit: %H%nAuthor: %an <%ae>%nDate: %ad%nMessage: %s%n",
+      "--no-patch",
+    ]);
+
+    // 差分を取得
+    const { stdout: diff } = await this.git(["show", revision, "--format="]);
+
+    return commitDetails + "\n" + diff;
+  }
+
+  // 軽量タグを作成
+  async createTag(tagName: string, target?: string): Promise<string> {
+    await this.validateTagName(tagName);
+    if (await this.refExists(`refs/tags/${tagName}`)) {
+      throw new RefAlreadyExistsError("Tag", tagName);
+    }
+
+    const targetRef = target || "HEAD";
+    await this.validateRevision(targetRef);
+    await this.git(["tag", tagName, targetRef]);
+    return `Created tag '${tagName}' at ${targetRef}`;
+  }
+
+  // 注釈付きタグを作成
+  async createAnnotatedTag(tagName: string, message: string, target?: string): Promise<string> {
+    await this.validateTagName(tagName);
+    if (await this.refExists(`refs/tags/${tagName}`)) {
+      throw new RefAlreadyExistsError("Tag", tagName);
+    }
+
+    const targetRef = target || "HEAD";
+    await this.validateRevision(targetRef);
+    await this.git(["tag", "-a", tagName, "-m", message, targetRef]);
+    return `Created annotated tag '${tagName}' at ${targetRef} with message: ${message}`;
+  }
+
+  // タグの一覧を取得
+  async listTags(pattern?: string): Promise<string[]> {
+    if (pattern) {
+      assertNotOption(pattern, "tag pattern");
+    }
+    const { stdout } = await this.git(["tag", "--list", ...(pattern ? [pattern] : [])]);
+    return stdout
+      .split("\n")
+      .filter((tag) => tag.trim() !== "")
+      .map((tag) => tag.trim());
+  }
+
+  // タグを削除
+  async deleteTag(tagName: string): Promise<string> {
+    await this.validateTagName(tagName);
+    if (!(await this.refExists(`refs/tags/${tagName}`))) {
+      throw new RefNotFoundError("Tag", tagName);
+    }
+
+    await this.git(["tag", "-d", tagName]);
+    return `Deleted tag '${tagName}'`;
+  }
+
+  // タグの詳細を表示（注釈付きタグの場合はメッセージも表示）
   async showTag(tagName: string): Promise<string> {
+    await this.validateTagName(tagName);
+    if (!(await this.refExists(`refs/tags/${tagName}`))) {
+      throw new RefNotFoundError("Tag", tagName);
+    }
+
     try {
       // タグの情報を取得
-      const { stdout: tagInfo } = await execAsync(
-        `git show "${tagName.replace(/"/g, '\\"')}" --format="Tag: %H%nTagger: %an <%ae>%nDate: %ad%nMessage: %s%n%b"`,
-        { cwd: this.repoPath },
-      );
+      const { stdout: tagInfo } = await this.git([
+        "show",
+        tagName,
+        "--format=Tag: %H%nTagger: %an <%ae>%nDate: %ad%nMessage: %s%n%b",
+      ]);
       return tagInfo;
     } catch (error) {
       // 軽量タグの場合は、タグが指すコミットの情報を表示
-      try {
-        const { stdout: commitInfo } = await execAsync(
-          `git rev-list -n 1 "${tagName.replace(/"/g, '\\"')}"`,
-          { cwd: this.repoPath },
-        );
-        const commitHash = commitInfo.trim();
-        return `Lightweight tag '${tagName}' points to commit ${commitHash}`;
-      } catch (innerError) {
-        throw new Error(`Tag '${tagName}' not found`);
-      }
+      const { stdout: commitHash } = await this.git(["rev-list", "-n", "1", tagName]);
+      return `Lightweight tag '${tagName}' points to commit ${commitHash.trim()}`;
     }
   }
 }
@@ -262,21 +1719,41 @@ class GitRepo {
 // ツール入力用のZodスキーマを定義
 const GitStatusSchema = z.object({
   repo_path: z.string(),
+  format: z.enum(["text", "json"]).optional().default("text"),
 });
 
-const GitDiffUnstagedSchema = z.object({
+// 差分系ツールで共通の表示オプション
+const GitDiffOptionsSchema = z.object({
   repo_path: z.string(),
+  paths: z.array(z.string()).optional(),
+  context_lines: z.number().int().nonnegative().optional(),
+  stat: z.enum(["stat", "numstat"]).optional(),
+  find_renames: z.boolean().optional(),
+  word_diff: z.boolean().optional().default(false),
+  format: z.enum(["text", "json"]).optional().default("text"),
+  file_offset: z.number().int().nonnegative().optional().default(0),
+  max_files: z.number().int().positive().optional(),
 });
 
-const GitDiffStagedSchema = z.object({
-  repo_path: z.string(),
-});
+const GitDiffUnstagedSchema = GitDiffOptionsSchema;
 
-const GitDiffSchema = z.object({
-  repo_path: z.string(),
+const GitDiffStagedSchema = GitDiffOptionsSchema;
+
+const GitDiffSchema = GitDiffOptionsSchema.extend({
   target: z.string(),
 });
 
+// ツール引数から差分の表示オプションを作成
+function toDiffOptions(args: z.infer<typeof GitDiffOptionsSchema>): GitDiffOptions {
+  return {
+    paths: args.paths,
+    contextLines: args.context_lines,
+    stat: args.stat,
+    findRenames: args.find_renames,
+    wordDiff: args.word_diff,
+  };
+}
+
 const GitCommitSchema = z.object({
   repo_path: z.string(),
   message: z.string(),
@@ -289,11 +1766,26 @@ const GitAddSchema = z.object({
 
 const GitResetSchema = z.object({
   repo_path: z.string(),
+  paths: z.array(z.string()).optional(),
+  mode: z.enum(["soft", "mixed", "hard"]).optional().default("mixed"),
+  target: z.string().optional(),
+  confirm: z.boolean().optional().default(false),
+});
+
+const GitAddHunksSchema = z.object({
+  repo_path: z.string(),
+  file: z.string(),
+  hunks: z.array(z.number().int()).optional(),
+  lines: z
+    .array(z.object({ start: z.number().int().positive(), end: z.number().int().positive() }))
+    .optional(),
+  context_lines: z.number().int().nonnegative().optional(),
 });
 
 const GitLogSchema = z.object({
   repo_path: z.string(),
   max_count: z.number().optional().default(10),
+  format: z.enum(["text", "json"]).optional().default("text"),
 });
 
 const GitCreateBranchSchema = z.object({
@@ -344,6 +1836,119 @@ const GitShowTagSchema = z.object({
   tag_name: z.string(),
 });
 
+const GitFetchSchema = z.object({
+  repo_path: z.string(),
+  remote: z.string().optional(),
+  all: z.boolean().optional().default(false),
+  prune: z.boolean().optional().default(false),
+});
+
+const GitPullSchema = z.object({
+  repo_path: z.string(),
+  remote: z.string().optional(),
+  branch: z.string().optional(),
+  mode: z.enum(["merge", "rebase"]).optional().default("merge"),
+  ff_only: z.boolean().optional().default(false),
+});
+
+const GitPushSchema = z.object({
+  repo_path: z.string(),
+  remote: z.string().optional(),
+  branch: z.string().optional(),
+  set_upstream: z.boolean().optional().default(false),
+  force_with_lease: z.boolean().optional().default(false),
+});
+
+const GitRemoteListSchema = z.object({
+  repo_path: z.string(),
+});
+
+const GitRemoteAddSchema = z.object({
+  repo_path: z.string(),
+  name: z.string(),
+  url: z.string(),
+});
+
+const GitRemoteRemoveSchema = z.object({
+  repo_path: z.string(),
+  name: z.string(),
+});
+
+const GitStashPushSchema = z.object({
+  repo_path: z.string(),
+  message: z.string().optional(),
+  include_untracked: z.boolean().optional().default(false),
+  paths: z.array(z.string()).optional(),
+});
+
+const GitStashListSchema = z.object({
+  repo_path: z.string(),
+});
+
+const GitStashShowSchema = z.object({
+  repo_path: z.string(),
+  stash: z.union([z.string(), z.number()]).optional(),
+  patch: z.boolean().optional().default(true),
+});
+
+const GitStashApplySchema = z.object({
+  repo_path: z.string(),
+  stash: z.union([z.string(), z.number()]).optional(),
+  restore_index: z.boolean().optional().default(false),
+});
+
+const GitStashDropSchema = z.object({
+  repo_path: z.string(),
+  stash: z.union([z.string(), z.number()]).optional(),
+});
+
+const GitMergeSchema = z.object({
+  repo_path: z.string(),
+  branch: z.string(),
+  fast_forward: z.enum(["auto", "only", "never"]).optional().default("auto"),
+  squash: z.boolean().optional().default(false),
+  message: z.string().optional(),
+});
+
+const GitRebaseSchema = z.object({
+  repo_path: z.string(),
+  upstream: z.string(),
+  onto: z.string().optional(),
+});
+
+const GitCherryPickSchema = z.object({
+  repo_path: z.string(),
+  commits: z.array(z.string()),
+  no_commit: z.boolean().optional().default(false),
+  mainline: z.number().int().positive().optional(),
+});
+
+const GitAbortSchema = z.object({
+  repo_path: z.string(),
+});
+
+const GitContinueSchema = z.object({
+  repo_path: z.string(),
+});
+
+const GitBlameSchema = z.object({
+  repo_path: z.string(),
+  file: z.string(),
+  start_line: z.number().int().positive().optional(),
+  end_line: z.number().int().positive().optional(),
+  ignore_whitespace: z.boolean().optional().default(false),
+  revision: z.string().optional(),
+  format: z.enum(["text", "json"]).optional().default("text"),
+});
+
+const GitFileHistorySchema = z.object({
+  repo_path: z.string(),
+  file: z.string(),
+  max_count: z.number().optional().default(10),
+  patch: z.boolean().optional().default(true),
+  format: z.enum(["text", "json"]).optional().default("text"),
+});
+
 // Gitツール名をenumオブジェクトとして定義
 const GitTools = {
   STATUS: "git_status",
@@ -352,6 +1957,7 @@ const GitTools = {
   DIFF: "git_diff",
   COMMIT: "git_commit",
   ADD: "git_add",
+  ADD_HUNKS: "git_add_hunks",
   RESET: "git_reset",
   LOG: "git_log",
   CREATE_BRANCH: "git_create_branch",
@@ -363,6 +1969,25 @@ const GitTools = {
   LIST_TAGS: "git_list_tags",
   DELETE_TAG: "git_delete_tag",
   SHOW_TAG: "git_show_tag",
+  FETCH: "git_fetch",
+  PULL: "git_pull",
+  PUSH: "git_push",
+  REMOTE_LIST: "git_remote_list",
+  REMOTE_ADD: "git_remote_add",
+  REMOTE_REMOVE: "git_remote_remove",
+  STASH_PUSH: "git_stash_push",
+  STASH_LIST: "git_stash_list",
+  STASH_SHOW: "git_stash_show",
+  STASH_APPLY: "git_stash_apply",
+  STASH_POP: "git_stash_pop",
+  STASH_DROP: "git_stash_drop",
+  MERGE: "git_merge",
+  REBASE: "git_rebase",
+  CHERRY_PICK: "git_cherry_pick",
+  ABORT: "git_abort",
+  CONTINUE: "git_continue",
+  BLAME: "git_blame",
+  FILE_HISTORY: "git_file_history",
 } as const;
 
 // MCPサーバーを初期化
@@ -388,20 +2013,805 @@ if (repository) {
     });
 }
 
-// Gitツールを定義
+// Gitツールを定義
+server.tool(
+  GitTools.STATUS,
+  "Shows the working tree status (format 'json' returns branch, ahead/behind and staged/unstaged/untracked entries)",
+  GitStatusSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const text =
+        args.format === "json"
+          ? JSON.stringify(await repo.statusDetails(), null, 2)
+          : `Repository status:\n${await repo.status()}`;
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.DIFF_UNSTAGED,
+  "Shows changes in the working directory that are not yet staged (supports path filtering, context lines, stat/numstat summaries, rename detection and word diff; format 'json' returns files, hunks and lines, paged by file)",
+  GitDiffUnstagedSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const options = toDiffOptions(args);
+      const text =
+        args.format === "json"
+          ? JSON.stringify(
+              await repo.diffFiles("unstaged", options, {
+                offset: args.file_offset,
+                limit: args.max_files,
+              }),
+              null,
+              2,
+            )
+          : `Unstaged changes:\n${await repo.diffUnstaged(options)}`;
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.DIFF_STAGED,
+  "Shows changes that are staged for commit (supports path filtering, context lines, stat/numstat summaries, rename detection and word diff; format 'json' returns files, hunks and lines, paged by file)",
+  GitDiffStagedSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const options = toDiffOptions(args);
+      const text =
+        args.format === "json"
+          ? JSON.stringify(
+              await repo.diffFiles("staged", options, {
+                offset: args.file_offset,
+                limit: args.max_files,
+              }),
+              null,
+              2,
+            )
+          : `Staged changes:\n${await repo.diffStaged(options)}`;
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.DIFF,
+  "Shows differences between branches or commits (supports path filtering, context lines, stat/numstat summaries, rename detection and word diff; format 'json' returns files, hunks and lines, paged by file)",
+  GitDiffSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const options = toDiffOptions(args);
+      const text =
+        args.format === "json"
+          ? JSON.stringify(
+              await repo.diffFiles({ target: args.target }, options, {
+                offset: args.file_offset,
+                limit: args.max_files,
+              }),
+              null,
+              2,
+            )
+          : `Diff with ${args.target}:\n${await repo.diff(args.target, options)}`;
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.COMMIT,
+  "Records changes to the repository",
+  GitCommitSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.commit(args.message);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.ADD,
+  "Adds file contents to the staging area",
+  GitAddSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.add(args.files);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.ADD_HUNKS,
+  "Stages only some changes of a file: whole hunks by index (0-based, in git_diff_unstaged order with the same context_lines) and/or line ranges (added lines by working tree line number, removed lines by staged line number)",
+  GitAddHunksSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.addHunks(
+        args.file,
+        { hunks: args.hunks, lines: args.lines },
+        args.context_lines,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.RESET,
+  "Unstages changes (all, or only the given paths), or resets HEAD to a target commit in soft/mixed/hard mode; moving HEAD or a hard reset requires confirm: true",
+  GitResetSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.reset({
+        paths: args.paths,
+        mode: args.mode,
+        target: args.target,
+        confirm: args.confirm,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.LOG,
+  "Shows the commit logs (format 'json' returns hash, parents, author, dates, subject, body and refs)",
+  GitLogSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const text =
+        args.format === "json"
+          ? JSON.stringify(await repo.logEntries(args.max_count), null, 2)
+          : `Commit history:\n${(await repo.log(args.max_count)).join("\n\n")}`;
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.CREATE_BRANCH,
+  "Creates a new branch from an optional base branch",
+  GitCreateBranchSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.createBranch(args.branch_name, args.base_branch);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(GitTools.CHECKOUT, "Switches branches", GitCheckoutSchema.shape, async (args) => {
+  try {
+    const repo = new GitRepo(args.repo_path);
+    const result = await repo.checkout(args.branch_name);
+    return {
+      content: [
+        {
+          type: "text",
+          text: result,
+        },
+      ],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+});
+
+server.tool(GitTools.SHOW, "Shows the contents of a commit", GitShowSchema.shape, async (args) => {
+  try {
+    const repo = new GitRepo(args.repo_path);
+    const result = await repo.show(args.revision);
+    return {
+      content: [
+        {
+          type: "text",
+          text: result,
+        },
+      ],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+});
+
+server.tool(GitTools.INIT, "Initialize a new Git repository", GitInitSchema.shape, async (args) => {
+  try {
+    const result = await GitRepo.init(args.repo_path);
+    return {
+      content: [
+        {
+          type: "text",
+          text: result,
+        },
+      ],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+});
+
+server.tool(
+  GitTools.CREATE_TAG,
+  "Create a lightweight tag at the specified target (defaults to HEAD)",
+  GitCreateTagSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.createTag(args.tag_name, args.target);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.CREATE_ANNOTATED_TAG,
+  "Create an annotated tag with a message at the specified target (defaults to HEAD)",
+  GitCreateAnnotatedTagSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.createAnnotatedTag(args.tag_name, args.message, args.target);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.LIST_TAGS,
+  "List all tags, optionally filtered by pattern",
+  GitListTagsSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const tags = await repo.listTags(args.pattern);
+      const tagList = tags.length > 0 ? tags.join("\n") : "No tags found";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Tags:\n${tagList}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(GitTools.DELETE_TAG, "Delete a tag", GitDeleteTagSchema.shape, async (args) => {
+  try {
+    const repo = new GitRepo(args.repo_path);
+    const result = await repo.deleteTag(args.tag_name);
+    return {
+      content: [
+        {
+          type: "text",
+          text: result,
+        },
+      ],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+});
+
+server.tool(
+  GitTools.SHOW_TAG,
+  "Show tag details (including message for annotated tags)",
+  GitShowTagSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.showTag(args.tag_name);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.FETCH,
+  "Downloads objects and refs from a remote (or all remotes) and reports ahead/behind",
+  GitFetchSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.fetch(args.remote, { all: args.all, prune: args.prune });
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.PULL,
+  "Fetches from a remote and integrates with merge or rebase, then reports ahead/behind",
+  GitPullSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.pull(args.remote, args.branch, args.mode, args.ff_only);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.PUSH,
+  "Updates a remote branch, optionally setting upstream; forcing is only allowed with --force-with-lease",
+  GitPushSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.push(args.remote, args.branch, {
+        setUpstream: args.set_upstream,
+        forceWithLease: args.force_with_lease,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  GitTools.REMOTE_LIST,
+  "Lists configured remotes with their fetch and push URLs",
+  GitRemoteListSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const remotes = await repo.listRemotes();
+      const result =
+        remotes.length > 0
+          ? remotes
+              .map((remote) => {
+                const urls =
+                  remote.fetchUrl === remote.pushUrl
+                    ? remote.fetchUrl
+                    : `${remote.fetchUrl} (fetch), ${remote.pushUrl} (push)`;
+                return `${remote.name}\t${urls}`;
+              })
+              .join("\n")
+          : "No remotes configured";
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(GitTools.REMOTE_ADD, "Adds a remote", GitRemoteAddSchema.shape, async (args) => {
+  try {
+    const repo = new GitRepo(args.repo_path);
+    const result = await repo.addRemote(args.name, args.url);
+    return {
+      content: [
+        {
+          type: "text",
+          text: result,
+        },
+      ],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+});
+
+server.tool(
+  GitTools.REMOTE_REMOVE,
+  "Removes a remote and its remote-tracking branches",
+  GitRemoteRemoveSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const result = await repo.removeRemote(args.name);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
 server.tool(
-  GitTools.STATUS,
-  "Shows the working tree status",
-  GitStatusSchema.shape,
+  GitTools.STASH_PUSH,
+  "Stashes working tree changes, optionally with a message, untracked files or only the given paths",
+  GitStashPushSchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const status = await repo.status();
+      const result = await repo.stashPush(args.message, {
+        includeUntracked: args.include_untracked,
+        paths: args.paths,
+      });
       return {
         content: [
           {
             type: "text",
-            text: `Repository status:\n${status}`,
+            text: result,
           },
         ],
         isError: false,
@@ -420,19 +2830,53 @@ server.tool(
   },
 );
 
+server.tool(GitTools.STASH_LIST, "Lists stash entries", GitStashListSchema.shape, async (args) => {
+  try {
+    const repo = new GitRepo(args.repo_path);
+    const stashes = await repo.stashList();
+    const result =
+      stashes.length > 0
+        ? stashes
+            .map(
+              (stash) => `${stash.ref}\t${stash.hash.slice(0, 7)}\t${stash.date}\t${stash.message}`,
+            )
+            .join("\n")
+        : "No stash entries found";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Stashes:\n${result}`,
+        },
+      ],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+});
+
 server.tool(
-  GitTools.DIFF_UNSTAGED,
-  "Shows changes in the working directory that are not yet staged",
-  GitDiffUnstagedSchema.shape,
+  GitTools.STASH_SHOW,
+  "Shows the changes recorded in a stash entry (defaults to the latest)",
+  GitStashShowSchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const diff = await repo.diffUnstaged();
+      const result = await repo.stashShow(args.stash, args.patch);
       return {
         content: [
           {
             type: "text",
-            text: `Unstaged changes:\n${diff}`,
+            text: result,
           },
         ],
         isError: false,
@@ -452,18 +2896,18 @@ server.tool(
 );
 
 server.tool(
-  GitTools.DIFF_STAGED,
-  "Shows changes that are staged for commit",
-  GitDiffStagedSchema.shape,
+  GitTools.STASH_APPLY,
+  "Applies a stash entry to the working tree and keeps it in the stash list",
+  GitStashApplySchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const diff = await repo.diffStaged();
+      const result = await repo.stashApply(args.stash, { restoreIndex: args.restore_index });
       return {
         content: [
           {
             type: "text",
-            text: `Staged changes:\n${diff}`,
+            text: result,
           },
         ],
         isError: false,
@@ -483,18 +2927,21 @@ server.tool(
 );
 
 server.tool(
-  GitTools.DIFF,
-  "Shows differences between branches or commits",
-  GitDiffSchema.shape,
+  GitTools.STASH_POP,
+  "Applies a stash entry to the working tree and removes it from the stash list",
+  GitStashApplySchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const diff = await repo.diff(args.target);
+      const result = await repo.stashApply(args.stash, {
+        pop: true,
+        restoreIndex: args.restore_index,
+      });
       return {
         content: [
           {
             type: "text",
-            text: `Diff with ${args.target}:\n${diff}`,
+            text: result,
           },
         ],
         isError: false,
@@ -514,13 +2961,13 @@ server.tool(
 );
 
 server.tool(
-  GitTools.COMMIT,
-  "Records changes to the repository",
-  GitCommitSchema.shape,
+  GitTools.STASH_DROP,
+  "Removes a stash entry (defaults to the latest)",
+  GitStashDropSchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const result = await repo.commit(args.message);
+      const result = await repo.stashDrop(args.stash);
       return {
         content: [
           {
@@ -545,18 +2992,22 @@ server.tool(
 );
 
 server.tool(
-  GitTools.ADD,
-  "Adds file contents to the staging area",
-  GitAddSchema.shape,
+  GitTools.MERGE,
+  "Merges a branch into the current branch; on conflicts returns the conflicted files with ours/base/theirs hunks",
+  GitMergeSchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const result = await repo.add(args.files);
+      const result = await repo.merge(args.branch, {
+        fastForward: args.fast_forward,
+        squash: args.squash,
+        message: args.message,
+      });
       return {
         content: [
           {
             type: "text",
-            text: result,
+            text: formatIntegrationResult(result),
           },
         ],
         isError: false,
@@ -575,71 +3026,19 @@ server.tool(
   },
 );
 
-server.tool(GitTools.RESET, "Unstages all staged changes", GitResetSchema.shape, async (args) => {
-  try {
-    const repo = new GitRepo(args.repo_path);
-    const result = await repo.reset();
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-      isError: false,
-    };
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
-
-server.tool(GitTools.LOG, "Shows the commit logs", GitLogSchema.shape, async (args) => {
-  try {
-    const repo = new GitRepo(args.repo_path);
-    const log = await repo.log(args.max_count);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Commit history:\n${log.join("\n\n")}`,
-        },
-      ],
-      isError: false,
-    };
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
-
 server.tool(
-  GitTools.CREATE_BRANCH,
-  "Creates a new branch from an optional base branch",
-  GitCreateBranchSchema.shape,
+  GitTools.REBASE,
+  "Rebases the current branch onto upstream (non-interactive, optionally --onto); on conflicts returns the conflicted files with ours/base/theirs hunks",
+  GitRebaseSchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const result = await repo.createBranch(args.branch_name, args.base_branch);
+      const result = await repo.rebase(args.upstream, args.onto);
       return {
         content: [
           {
             type: "text",
-            text: result,
+            text: formatIntegrationResult(result),
           },
         ],
         isError: false,
@@ -658,96 +3057,22 @@ server.tool(
   },
 );
 
-server.tool(GitTools.CHECKOUT, "Switches branches", GitCheckoutSchema.shape, async (args) => {
-  try {
-    const repo = new GitRepo(args.repo_path);
-    const result = await repo.checkout(args.branch_name);
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-      isError: false,
-    };
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
-
-server.tool(GitTools.SHOW, "Shows the contents of a commit", GitShowSchema.shape, async (args) => {
-  try {
-    const repo = new GitRepo(args.repo_path);
-    const result = await repo.show(args.revision);
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-      isError: false,
-    };
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
-
-server.tool(GitTools.INIT, "Initialize a new Git repository", GitInitSchema.shape, async (args) => {
-  try {
-    const result = await GitRepo.init(args.repo_path);
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-      isError: false,
-    };
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
-
 server.tool(
-  GitTools.CREATE_TAG,
-  "Create a lightweight tag at the specified target (defaults to HEAD)",
-  GitCreateTagSchema.shape,
+  GitTools.CHERRY_PICK,
+  "Applies the changes of existing commits to the current branch; on conflicts returns the conflicted files with ours/base/theirs hunks",
+  GitCherryPickSchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const result = await repo.createTag(args.tag_name, args.target);
+      const result = await repo.cherryPick(args.commits, {
+        noCommit: args.no_commit,
+        mainline: args.mainline,
+      });
       return {
         content: [
           {
             type: "text",
-            text: result,
+            text: formatIntegrationResult(result),
           },
         ],
         isError: false,
@@ -767,13 +3092,13 @@ server.tool(
 );
 
 server.tool(
-  GitTools.CREATE_ANNOTATED_TAG,
-  "Create an annotated tag with a message at the specified target (defaults to HEAD)",
-  GitCreateAnnotatedTagSchema.shape,
+  GitTools.ABORT,
+  "Aborts the merge, rebase, cherry-pick or revert in progress (or discards the conflicts of a squash merge with git reset --merge)",
+  GitAbortSchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const result = await repo.createAnnotatedTag(args.tag_name, args.message, args.target);
+      const result = await repo.abort();
       return {
         content: [
           {
@@ -798,19 +3123,18 @@ server.tool(
 );
 
 server.tool(
-  GitTools.LIST_TAGS,
-  "List all tags, optionally filtered by pattern",
-  GitListTagsSchema.shape,
+  GitTools.CONTINUE,
+  "Continues the merge, rebase, cherry-pick or revert in progress after conflicts are resolved and staged",
+  GitContinueSchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const tags = await repo.listTags(args.pattern);
-      const tagList = tags.length > 0 ? tags.join("\n") : "No tags found";
+      const result = await repo.continue();
       return {
         content: [
           {
             type: "text",
-            text: `Tags:\n${tagList}`,
+            text: formatIntegrationResult(result),
           },
         ],
         isError: false,
@@ -829,40 +3153,79 @@ server.tool(
   },
 );
 
-server.tool(GitTools.DELETE_TAG, "Delete a tag", GitDeleteTagSchema.shape, async (args) => {
-  try {
-    const repo = new GitRepo(args.repo_path);
-    const result = await repo.deleteTag(args.tag_name);
-    return {
-      content: [
-        {
-          type: "text",
-          text: result,
-        },
-      ],
-      isError: false,
-    };
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
+server.tool(
+  GitTools.BLAME,
+  "Shows the commit, author and date that last changed each line of a file, optionally for a line range",
+  GitBlameSchema.shape,
+  async (args) => {
+    try {
+      const repo = new GitRepo(args.repo_path);
+      const lines = await repo.blame(args.file, {
+        startLine: args.start_line,
+        endLine: args.end_line,
+        ignoreWhitespace: args.ignore_whitespace,
+        revision: args.revision,
+      });
+      const result =
+        args.format === "json"
+          ? JSON.stringify(lines, null, 2)
+          : lines
+              .map(
+                (line) =>
+                  `${line.commit.slice(0, 8)} (${line.author} ${line.date.slice(0, 10)} ${line.line}) ${line.content}`,
+              )
+              .join("\n");
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
 
 server.tool(
-  GitTools.SHOW_TAG,
-  "Show tag details (including message for annotated tags)",
-  GitShowTagSchema.shape,
+  GitTools.FILE_HISTORY,
+  "Shows the commits that changed a file, following renames, with the diff of each commit",
+  GitFileHistorySchema.shape,
   async (args) => {
     try {
       const repo = new GitRepo(args.repo_path);
-      const result = await repo.showTag(args.tag_name);
+      const entries = await repo.fileHistory(args.file, {
+        maxCount: args.max_count,
+        patch: args.patch,
+      });
+      const result =
+        args.format === "json"
+          ? JSON.stringify(entries, null, 2)
+          : entries.length === 0
+            ? `No history found for ${args.file}`
+            : `History of ${args.file}:\n` +
+              entries
+                .map(
+                  (entry) =>
+                    `Commit: ${entry.hash}\n` +
+                    `Author: ${entry.author.name} <${entry.author.email}>\n` +
+                    `Date: ${entry.author.date}\n` +
+                    `Message: ${entry.subject}\n` +
+                    `File: ${entry.previousPath ? `${entry.previousPath} -> ` : ""}${entry.path} (${entry.status})\n` +
+                    (entry.diff ? `\n${entry.diff}` : ""),
+                )
+                .join("\n");
       return {
         content: [
           {
@@ -0,0 +1,223 @@
+/**
+ * Puppeteer MCP アーティファクト管理
+ *
+ * このモジュールは、スクリーンショットとPDFをメモリ上のリソースとして保持し、
+ * 保存先ディレクトリが設定されている場合はファイルとしても書き出します。
+ * メモリ上のリソースは件数・サイズの上限を超えると古いものから破棄されます。
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  deleteResource,
+  evictResources,
+  getResource,
+  getResourceEntries,
+  saveResource,
+} from "./state.js";
+import { ArtifactInfo, ArtifactKind } from "./types.js";
+import { expandHome } from "./utils.js";
+
+/**
+ * 種類ごとの保存先サブディレクトリと拡張子
+ */
+const ARTIFACT_KINDS: Record<ArtifactKind, { directory: string; extension: string }> = {
+  screenshot: { directory: "screenshots", extension: ".png" },
+  pdf: { directory: "pdfs", extension: ".pdf" },
+};
+
+/**
+ * メモリ上に保持するアーティファクトのデフォルト上限
+ */
+const DEFAULT_MAX_MEMORY_ARTIFACTS = 50;
+const DEFAULT_MAX_MEMORY_ARTIFACTS_MB = 100;
+
+/**
+ * アーティファクトの保存先ディレクトリを取得
+ * 環境変数PUPPETEER_ARTIFACTS_DIRが設定されていない場合はメモリ上にのみ保持
+ */
+export function getArtifactsDirectory(): string | undefined {
+  const configured = process.env.PUPPETEER_ARTIFACTS_DIR;
+  return configured ? path.resolve(expandHome(configured)) : undefined;
+}
+
+/**
+ * メモリ上に保持するアーティファクトの上限を取得
+ * 環境変数PUPPETEER_MAX_MEMORY_ARTIFACTS（件数）、PUPPETEER_MAX_MEMORY_ARTIFACTS_MB（合計サイズ）で変更可能
+ */
+function getMemoryLimits(): { maxEntries: number; maxBytes: number } {
+  const maxEntries = parseInt(process.env.PUPPETEER_MAX_MEMORY_ARTIFACTS ?? "", 10);
+  const maxMegabytes = parseFloat(process.env.PUPPETEER_MAX_MEMORY_ARTIFACTS_MB ?? "");
+  return {
+    maxEntries: Number.isNaN(maxEntries) ? DEFAULT_MAX_MEMORY_ARTIFACTS : maxEntries,
+    maxBytes:
+      (Number.isNaN(maxMegabytes) ? DEFAULT_MAX_MEMORY_ARTIFACTS_MB : maxMegabytes) * 1024 * 1024,
+  };
+}
+
+/**
+ * アーティファクトのリソースURIを生成
+ */
+export function artifactUri(kind: ArtifactKind, name: string): string {
+  return `${kind}://${name}`;
+}
+
+/**
+ * アーティファクト名を正規化（種類に対応する拡張子を除く）
+ * メモリ上・ファイルのどちらから一覧しても同じ名前になるよう、名前は必ずこの関数を通す
+ */
+function normalizeArtifactName(kind: ArtifactKind, name: string): string {
+  const { extension } = ARTIFACT_KINDS[kind];
+  return name.toLowerCase().endsWith(extension) && name.length > extension.length
+    ? name.slice(0, -extension.length)
+    : name;
+}
+
+/**
+ * 正規化済みのアーティファクト名からファイル名を生成
+ */
+function artifactFileName(kind: ArtifactKind, name: string): string {
+  return `${name.replace(/[^A-Za-z0-9._-]/g, "_")}${ARTIFACT_KINDS[kind].extension}`;
+}
+
+/**
+ * アーティファクトのファイルパスを生成（保存先ディレクトリ未設定の場合はundefined）
+ */
+function artifactPath(kind: ArtifactKind, name: string): string | undefined {
+  const directory = getArtifactsDirectory();
+  if (!directory) return undefined;
+
+  return path.join(directory, ARTIFACT_KINDS[kind].directory, artifactFileName(kind, name));
+}
+
+/**
+ * メモリ上の別名のアーティファクトと同じファイル名になる場合はエラー
+ * （ファイル名に使えない文字は置換されるため、"a b" と "a_b" は同じファイルになる）
+ */
+function assertNoFileNameCollision(kind: ArtifactKind, name: string): void {
+  if (!getArtifactsDirectory()) return;
+
+  const fileName = artifactFileName(kind, name);
+  for (const { uri } of getResourceEntries()) {
+    const [scheme, existing] = uri.split("://");
+    if (scheme !== kind || !existing || existing === name) continue;
+    if (artifactFileName(kind, existing) === fileName) {
+      throw new Error(
+        `Artifact name '${name}' collides with '${existing}' (both are saved as ${fileName})`,
+      );
+    }
+  }
+}
+
+/**
+ * アーティファクトを保存し、ファイルに書き出した場合はそのパスを返す
+ */
+export async function saveArtifact(
+  kind: ArtifactKind,
+  name: string,
+  data: string,
+): Promise<string | undefined> {
+  name = normalizeArtifactName(kind, name);
+  assertNoFileNameCollision(kind, name);
+  saveResource(artifactUri(kind, name), data);
+
+  const filePath = artifactPath(kind, name);
+  if (filePath) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, Buffer.from(data, "base64"));
+  }
+
+  const { maxEntries, maxBytes } = getMemoryLimits();
+  evictResources(maxEntries, maxBytes);
+
+  return filePath;
+}
+
+/**
+ * アーティファクトをbase64で取得（メモリになければファイルから読み込み）
+ */
+export async function readArtifact(kind: ArtifactKind, name: string): Promise<string | undefined> {
+  name = normalizeArtifactName(kind, name);
+  const data = getResource(artifactUri(kind, name));
+  if (data !== undefined) {
+    return data;
+  }
+
+  const filePath = artifactPath(kind, name);
+  if (!filePath) return undefined;
+  return fs
+    .readFile(filePath)
+    .then((buffer) => buffer.toString("base64"))
+    .catch(() => undefined);
+}
+
+/**
+ * メモリ上とファイルのアーティファクトを一覧
+ */
+export async function listArtifacts(): Promise<ArtifactInfo[]> {
+  const artifacts = new Map<string, ArtifactInfo>();
+
+  for (const { uri, size } of getResourceEntries()) {
+    const [scheme, name] = uri.split("://") as [ArtifactKind, string];
+    if (!(scheme in ARTIFACT_KINDS)) continue;
+
+    const filePath = artifactPath(scheme, name);
+    artifacts.set(filePath ?? uri, {
+      kind: scheme,
+      name,
+      uri,
+      // base64文字列の長さから元のサイズを概算
+      size: Math.floor((size * 3) / 4),
+      inMemory: true,
+      path: filePath,
+    });
+  }
+
+  const directory = getArtifactsDirectory();
+  if (directory) {
+    for (const [kind, { directory: subdirectory, extension }] of Object.entries(ARTIFACT_KINDS)) {
+      const kindDirectory = path.join(directory, subdirectory);
+      const files = await fs.readdir(kindDirectory).catch(() => [] as string[]);
+      for (const file of files) {
+        const filePath = path.join(kindDirectory, file);
+        if (artifacts.has(filePath)) continue;
+
+        const stats = await fs.stat(filePath).catch(() => undefined);
+        if (!stats?.isFile()) continue;
+
+        if (!file.endsWith(extension)) continue;
+        const name = normalizeArtifactName(kind as ArtifactKind, file);
+        artifacts.set(filePath, {
+          kind: kind as ArtifactKind,
+          name,
+          uri: artifactUri(kind as ArtifactKind, name),
+          size: stats.size,
+          inMemory: false,
+          path: filePath,
+        });
+      }
+    }
+  }
+
+  return Array.from(artifacts.values());
+}
+
+/**
+ * アーティファクトをメモリとファイルから削除
+ * 削除できた場合はtrueを返す
+ */
+export async function deleteArtifact(kind: ArtifactKind, name: string): Promise<boolean> {
+  name = normalizeArtifactName(kind, name);
+  let deleted = deleteResource(artifactUri(kind, name));
+
+  const filePath = artifactPath(kind, name);
+  if (filePath) {
+    try {
+      await fs.unlink(filePath);
+      deleted = true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+  return deleted;
+}
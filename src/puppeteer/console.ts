@@ -0,0 +1,86 @@
+/**
+ * Puppeteer MCP コンソールキャプチャ
+ *
+ * このモジュールは、ページごとのコンソールメッセージ、未捕捉のページエラー、
+ * 失敗したリクエストを、レベル・発生時刻・発生箇所付きのログとして状態に保存します。
+ */
+
+import { ConsoleMessage, ConsoleMessageLocation, Page } from "puppeteer";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { addConsoleLog } from "./state.js";
+import { ConsoleLogEntry } from "./types.js";
+
+/**
+ * スタックトレースを記録するコンソールメッセージのレベル
+ */
+const STACK_TRACE_LEVELS = new Set(["error", "warn", "trace", "assert"]);
+
+/**
+ * コンソールログのエントリを1行のテキストに整形
+ */
+export function formatConsoleEntry(entry: ConsoleLogEntry): string {
+  const location = entry.url
+    ? ` (${entry.url}${entry.lineNumber !== undefined ? `:${entry.lineNumber}` : ""})`
+    : "";
+  return `${entry.timestamp} [${entry.level}] ${entry.text}${location}`;
+}
+
+/**
+ * ページにコンソール・ページエラー・リクエスト失敗のキャプチャを設定
+ */
+export function attachConsoleCapture(page: Page, tabId: string, server: Server): void {
+  const record = (entry: Omit<ConsoleLogEntry, "id" | "tabId" | "timestamp">) => {
+    addConsoleLog({ tabId, timestamp: new Date().toISOString(), ...entry });
+    server.notification({
+      method: "notifications/resources/updated",
+      params: { uri: "console://logs" },
+    });
+  };
+
+  page.on("console", (msg) => {
+    record(fromConsoleMessage(msg));
+  });
+
+  page.on("pageerror", (error) => {
+    const { message, stack } = error instanceof Error ? error : { message: String(error) };
+    record({ source: "pageerror", level: "error", text: message, stack });
+  });
+
+  page.on("requestfailed", (request) => {
+    const failure = request.failure()?.errorText ?? "Unknown error";
+    record({
+      source: "requestfailed",
+      level: "error",
+      text: `${request.method()} ${request.url()} failed: ${failure}`,
+      url: request.url(),
+    });
+  });
+}
+
+/**
+ * コンソールメッセージをログのエントリに変換
+ */
+function fromConsoleMessage(
+  msg: ConsoleMessage,
+): Omit<ConsoleLogEntry, "id" | "tabId" | "timestamp"> {
+  const level = msg.type();
+  const location = msg.location();
+  const stackTrace = STACK_TRACE_LEVELS.has(level) ? msg.stackTrace() : [];
+
+  return {
+    source: "console",
+    level,
+    text: msg.text(),
+    url: location.url || undefined,
+    lineNumber: location.lineNumber,
+    columnNumber: location.columnNumber,
+    stack: stackTrace.length > 0 ? stackTrace.map(formatStackFrame).join("\n") : undefined,
+  };
+}
+
+/**
+ * スタックフレームを1行のテキストに整形
+ */
+function formatStackFrame(frame: ConsoleMessageLocation): string {
+  return `    at ${frame.url ?? "<anonymous>"}:${frame.lineNumber ?? 0}:${frame.columnNumber ?? 0}`;
+}
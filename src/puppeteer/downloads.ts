@@ -0,0 +1,94 @@
+/**
+ * Puppeteer MCP ダウンロード管理
+ *
+ * このモジュールは、ブラウザのダウンロード先ディレクトリを設定し、
+ * ダウンロードの開始・進捗・完了を状態に記録します。
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Browser } from "puppeteer";
+import { getDownload, saveDownload } from "./state.js";
+import { expandHome } from "./utils.js";
+
+/**
+ * ダウンロード先ディレクトリを取得
+ * 環境変数PUPPETEER_DOWNLOADS_DIRで変更可能
+ */
+export function getDownloadsDirectory(): string {
+  const configured = process.env.PUPPETEER_DOWNLOADS_DIR;
+  return configured
+    ? path.resolve(expandHome(configured))
+    : path.join(os.homedir(), ".claude-ts-mcps", "puppeteer", "downloads");
+}
+
+/**
+ * ディレクトリ内で重複しないファイル名を生成
+ * 同名のファイルが存在する場合は "name (1).ext" のように連番を付けます
+ */
+async function uniqueFilePath(directory: string, filename: string): Promise<string> {
+  const safeName = path.basename(filename) || "download";
+  const ext = path.extname(safeName);
+  const base = path.basename(safeName, ext);
+
+  for (let i = 0; ; i++) {
+    const candidate = path.join(directory, i === 0 ? safeName : `${base} (${i})${ext}`);
+    try {
+      await fs.access(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * ブラウザのダウンロードを有効化し、進捗を記録するリスナーを設定
+ */
+export async function setupDownloads(browser: Browser): Promise<void> {
+  const directory = getDownloadsDirectory();
+  await fs.mkdir(directory, { recursive: true });
+
+  const client = await browser.target().createCDPSession();
+
+  // GUIDをファイル名として保存し、完了後に推奨ファイル名へリネームする
+  await client.send("Browser.setDownloadBehavior", {
+    behavior: "allowAndName",
+    downloadPath: directory,
+    eventsEnabled: true,
+  });
+
+  client.on("Browser.downloadWillBegin", (event) => {
+    saveDownload({
+      guid: event.guid,
+      url: event.url,
+      suggestedFilename: event.suggestedFilename,
+      state: "inProgress",
+      receivedBytes: 0,
+      totalBytes: 0,
+      startedAt: Date.now(),
+    });
+  });
+
+  client.on("Browser.downloadProgress", async (event) => {
+    const entry = getDownload(event.guid);
+    if (!entry) return;
+
+    entry.receivedBytes = event.receivedBytes;
+    entry.totalBytes = event.totalBytes;
+    if (event.state === "inProgress") return;
+
+    if (event.state === "completed") {
+      try {
+        const finalPath = await uniqueFilePath(directory, entry.suggestedFilename);
+        await fs.rename(path.join(directory, entry.guid), finalPath);
+        entry.path = finalPath;
+      } catch (error) {
+        console.error(`Failed to rename download ${entry.guid}:`, error);
+        entry.path = path.join(directory, entry.guid);
+      }
+    }
+    entry.completedAt = Date.now();
+    entry.state = event.state;
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * アーティファクト系ハンドラー
+ */
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { createErrorResponse, createSuccessResponse } from "../utils.js";
+import { deleteArtifact, getArtifactsDirectory, listArtifacts } from "../artifacts.js";
+import { DeleteArtifactArgs } from "../types.js";
+
+/**
+ * 保存済みのスクリーンショット・PDFを一覧する処理
+ */
+export async function handleListArtifacts(): Promise<CallToolResult> {
+  try {
+    const artifacts = await listArtifacts();
+
+    return createSuccessResponse(
+      `Artifacts directory: ${getArtifactsDirectory() ?? "(not set, memory only)"}\n` +
+        `Artifacts (${artifacts.length}):\n${JSON.stringify(artifacts, null, 2)}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to list artifacts: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 保存済みのスクリーンショット・PDFを削除する処理
+ */
+export async function handleDeleteArtifact(
+  args: DeleteArtifactArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const deleted = await deleteArtifact(args.kind, args.name);
+    if (!deleted) {
+      return createErrorResponse(`Artifact not found: ${args.kind} '${args.name}'`);
+    }
+
+    // リソースリストを更新
+    server.notification({
+      method: "notifications/resources/list_changed",
+    });
+
+    return createSuccessResponse(`Artifact deleted: ${args.kind} '${args.name}'`);
+  } catch (error) {
+    return createErrorResponse(`Failed to delete artifact: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * ブラウザ管理系ハンドラー
+ */
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { createErrorResponse, createSuccessResponse, ensureBrowser } from "../utils.js";
+import { loadLaunchConfig, resolveLaunchProfile } from "../launch.js";
+import { getBrowser, getLaunchProfile, resetBrowserState, setLaunchProfile } from "../state.js";
+import { RestartBrowserArgs } from "../types.js";
+
+/**
+ * ブラウザを再起動する処理
+ */
+export async function handleRestartBrowser(
+  args: RestartBrowserArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    // 不正なプロファイル名の場合は現在のブラウザを閉じる前にエラーにする
+    const { name, profile } = await resolveLaunchProfile(args.profile, args.overrides);
+
+    const browser = getBrowser();
+    resetBrowserState();
+    await browser?.close().catch((error) => {
+      console.error("Failed to close browser:", error);
+    });
+
+    setLaunchProfile(name, profile);
+    const page = await ensureBrowser(server);
+    const version = await page.browser().version();
+
+    return createSuccessResponse(
+      `Browser restarted (${version})\n` +
+        `Profile: ${name ?? "(default)"}\n` +
+        `Settings: ${JSON.stringify(profile, null, 2)}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to restart browser: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 起動プロファイルの一覧を取得する処理
+ */
+export async function handleListLaunchProfiles(): Promise<CallToolResult> {
+  try {
+    const config = await loadLaunchConfig();
+    const current = getLaunchProfile();
+
+    return createSuccessResponse(
+      `Launch config: ${process.env.PUPPETEER_LAUNCH_CONFIG ?? "(not set)"}\n` +
+        `Default profile: ${config.defaultProfile ?? "(none)"}\n` +
+        `Profiles: ${JSON.stringify(config.profiles ?? {}, null, 2)}\n\n` +
+        `Running with: ${getBrowser() ? (current.name ?? "(default)") : "(browser not started)"}\n` +
+        (current.profile ? `Settings: ${JSON.stringify(current.profile, null, 2)}` : ""),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to list launch profiles: ${(error as Error).message}`);
+  }
+}
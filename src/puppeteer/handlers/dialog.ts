@@ -0,0 +1,55 @@
+/**
+ * ダイアログ系ハンドラー
+ */
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { createErrorResponse, createSuccessResponse, ensureBrowser } from "../utils.js";
+import { clearDialogLog, getDialogLog, setDialogPolicy } from "../state.js";
+import { SetDialogHandlerArgs, GetDialogsArgs } from "../types.js";
+
+/**
+ * ダイアログの応答方針を設定する処理
+ */
+export async function handleSetDialogHandler(
+  args: SetDialogHandlerArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    setDialogPolicy({ action: args.action, promptText: args.promptText }, args.dialogType);
+
+    return createSuccessResponse(
+      `Dialog handler set: ${args.action} ${args.dialogType ?? "all"} dialogs` +
+        (args.promptText !== undefined ? `\nPrompt text: "${args.promptText}"` : ""),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to set dialog handler: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 処理したダイアログの記録を取得する処理
+ */
+export async function handleGetDialogs(
+  args: GetDialogsArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    const dialogs = [...getDialogLog()];
+    if (args.clear) {
+      clearDialogLog();
+    }
+
+    return createSuccessResponse(
+      `Dialogs (${dialogs.length})` +
+        (args.clear ? " (log cleared)" : "") +
+        `:\n${JSON.stringify(dialogs, null, 2)}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to get dialogs: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * ファイル操作系ハンドラー
+ */
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ElementHandle } from "puppeteer";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ensureBrowser,
+  resolveLocator,
+  resolveSelector,
+  validateAllowedPath,
+} from "../utils.js";
+import { getDownloadsDirectory } from "../downloads.js";
+import { getDownloads } from "../state.js";
+import { DownloadEntry, UploadFileArgs, WaitForDownloadArgs } from "../types.js";
+
+/**
+ * ファイルをアップロードする処理
+ */
+export async function handleUploadFile(
+  args: UploadFileArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  const target = args.ref ?? args.selector;
+  try {
+    const page = await ensureBrowser(server);
+
+    if (args.paths.length === 0) {
+      return createErrorResponse("Must specify at least one file path");
+    }
+
+    // ファイルは許可ディレクトリ内のもののみ使用可能
+    const filePaths: string[] = [];
+    for (const filePath of args.paths) {
+      filePaths.push(await validateAllowedPath(filePath));
+    }
+
+    const element = await page.waitForSelector(resolveSelector(args));
+    if (!element) {
+      return createErrorResponse(`Element not found: ${target}`);
+    }
+
+    const isFileInput = await element.evaluate(
+      (el) => el instanceof HTMLInputElement && el.type === "file",
+    );
+
+    if (isFileInput) {
+      await (element as ElementHandle<HTMLInputElement>).uploadFile(...filePaths);
+    } else {
+      // ボタンなどがファイル選択ダイアログを開く場合
+      const [fileChooser] = await Promise.all([
+        page.waitForFileChooser({ timeout: 5000 }),
+        element.click(),
+      ]);
+      await fileChooser.accept(filePaths);
+    }
+
+    return createSuccessResponse(
+      `Uploaded ${filePaths.length} file(s) via ${target}:\n` +
+        filePaths.map((p) => `- ${p}`).join("\n"),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to upload files to ${target}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * ダウンロードの一覧を取得する処理
+ */
+export async function handleListDownloads(server: Server): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    const downloads = getDownloads();
+    return createSuccessResponse(
+      `Downloads in ${getDownloadsDirectory()} (${downloads.length}):\n` +
+        JSON.stringify(downloads, null, 2),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to list downloads: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * ダウンロードの完了を待機する処理
+ */
+export async function handleWaitForDownload(
+  args: WaitForDownloadArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+    const startTime = Date.now();
+    const timeout = args.timeout ?? 30000;
+
+    // 呼び出し時点で進行中のダウンロード、またはこれから開始されるダウンロードが対象
+    // 進行中かどうかは完了後に変わるため、呼び出し時点のGUIDを記録しておく
+    const inProgressAtStart = new Set(
+      getDownloads()
+        .filter((download) => download.state === "inProgress")
+        .map((download) => download.guid),
+    );
+    const isTarget = (download: DownloadEntry) =>
+      download.startedAt >= startTime || inProgressAtStart.has(download.guid);
+
+    if (args.triggerSelector) {
+      await page.click(resolveLocator(args.triggerSelector));
+    }
+
+    while (Date.now() - startTime < timeout) {
+      const finished = getDownloads().find((d) => isTarget(d) && d.state !== "inProgress");
+      const pending = getDownloads().some((d) => isTarget(d) && d.state === "inProgress");
+
+      if (finished && !pending) {
+        if (finished.state === "canceled") {
+          return createErrorResponse(`Download canceled: ${finished.url}`);
+        }
+        return createSuccessResponse(
+          `Download completed in ${Date.now() - startTime}ms\n` +
+            `URL: ${finished.url}\n` +
+            `File: ${finished.path}\n` +
+            `Size: ${finished.receivedBytes} bytes`,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    return createErrorResponse(`Timeout waiting for download (timeout: ${timeout}ms)`);
+  } catch (error) {
+    return createErrorResponse(`Failed to wait for download: ${(error as Error).message}`);
+  }
+}
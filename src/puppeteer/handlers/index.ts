@@ -12,9 +12,13 @@ import {
   handleScreenshot,
   handleClick,
   handleFill,
+  handleFillForm,
   handleSelect,
   handleHover,
   handleEvaluate,
+  handleDragAndDrop,
+  handleScroll,
+  handleMouseClick,
 } from "./navigation.js";
 
 // 待機系
@@ -36,6 +40,8 @@ import {
   handleReload,
   handlePdf,
   handleEmulateDevice,
+  handlePerformanceMetrics,
+  handleEmulateThrottling,
 } from "./page.js";
 
 // Cookie・認証系
@@ -48,6 +54,9 @@ import {
   handleGetContent,
   handleGetText,
   handleGetElementInfo,
+  handleAccessibilitySnapshot,
+  handleExtract,
+  handleGetConsoleLogs,
 } from "./info.js";
 
 // Frame操作系
@@ -59,17 +68,79 @@ import {
   handleSearchAcrossFrames,
 } from "./frame.js";
 
+// タブ操作系
+import { handleNewTab, handleListTabs, handleSwitchTab, handleCloseTab } from "./tab.js";
+
+// ネットワーク系
+import {
+  handleGetNetworkLog,
+  handleSetNetworkCapture,
+  handleAddInterceptRule,
+  handleListInterceptRules,
+  handleRemoveInterceptRule,
+} from "./network.js";
+
+// セッションプロファイル系
+import {
+  handleSaveSession,
+  handleLoadSession,
+  handleListSessions,
+  handleDeleteSession,
+} from "./session.js";
+
+// ビジュアル比較系
+import { handleCompareScreenshot } from "./visual.js";
+
+// 記録・再生系
+import {
+  handleStartRecording,
+  handleStopRecording,
+  handleRunScript,
+  prepareRecordedArgs,
+  recordToolCall,
+} from "./script.js";
+
+// ファイル操作系
+import { handleUploadFile, handleListDownloads, handleWaitForDownload } from "./file.js";
+
+// ダイアログ系
+import { handleSetDialogHandler, handleGetDialogs } from "./dialog.js";
+
+// ブラウザ管理系
+import { handleRestartBrowser, handleListLaunchProfiles } from "./browser.js";
+
+// アーティファクト系
+import { handleListArtifacts, handleDeleteArtifact } from "./artifact.js";
+
 // その他
 import { handleAddScriptTag, handleClearInput } from "./misc.js";
 
 /**
  * ツール呼び出しを処理するメインハンドラー
+ * 記録中の場合は、成功したツール呼び出しをスクリプトに記録します
  */
 export async function handleToolCall(
   name: string,
   args: any,
   server: Server,
 ): Promise<CallToolResult> {
+  // 要素参照は操作後に無効になりうるため、記録する引数は実行前に作成する
+  let recordedArgs: any;
+  try {
+    recordedArgs = await prepareRecordedArgs(name, args, server);
+  } catch (error) {
+    return createErrorResponse(`Cannot record ${name}: ${(error as Error).message}`);
+  }
+
+  const result = await dispatchToolCall(name, args, server);
+  recordToolCall(name, recordedArgs, result);
+  return result;
+}
+
+/**
+ * ツール名に対応するハンドラーを呼び出す
+ */
+async function dispatchToolCall(name: string, args: any, server: Server): Promise<CallToolResult> {
   try {
     switch (name) {
       // ナビゲーション系
@@ -81,12 +152,20 @@ export async function handleToolCall(
         return await handleClick(args, server);
       case "puppeteer_fill":
         return await handleFill(args, server);
+      case "puppeteer_fill_form":
+        return await handleFillForm(args, server);
       case "puppeteer_select":
         return await handleSelect(args, server);
       case "puppeteer_hover":
         return await handleHover(args, server);
       case "puppeteer_evaluate":
         return await handleEvaluate(args, server);
+      case "puppeteer_drag_and_drop":
+        return await handleDragAndDrop(args, server);
+      case "puppeteer_scroll":
+        return await handleScroll(args, server);
+      case "puppeteer_mouse_click":
+        return await handleMouseClick(args, server);
 
       // 待機系
       case "puppeteer_wait_for_selector":
@@ -117,6 +196,10 @@ export async function handleToolCall(
         return await handlePdf(args, server);
       case "puppeteer_emulate_device":
         return await handleEmulateDevice(args, server);
+      case "puppeteer_performance_metrics":
+        return await handlePerformanceMetrics(args, server);
+      case "puppeteer_emulate_throttling":
+        return await handleEmulateThrottling(args, server);
 
       // Cookie・認証系
       case "puppeteer_set_cookies":
@@ -137,6 +220,12 @@ export async function handleToolCall(
         return await handleGetText(args, server);
       case "puppeteer_get_element_info":
         return await handleGetElementInfo(args, server);
+      case "puppeteer_accessibility_snapshot":
+        return await handleAccessibilitySnapshot(args, server);
+      case "puppeteer_extract":
+        return await handleExtract(args, server);
+      case "puppeteer_get_console_logs":
+        return await handleGetConsoleLogs(args, server);
 
       // Frame操作系
       case "puppeteer_get_frames":
@@ -150,6 +239,76 @@ export async function handleToolCall(
       case "puppeteer_search_across_frames":
         return await handleSearchAcrossFrames(args, server);
 
+      // タブ操作系
+      case "puppeteer_new_tab":
+        return await handleNewTab(args, server);
+      case "puppeteer_list_tabs":
+        return await handleListTabs(server);
+      case "puppeteer_switch_tab":
+        return await handleSwitchTab(args, server);
+      case "puppeteer_close_tab":
+        return await handleCloseTab(args, server);
+
+      // ネットワーク系
+      case "puppeteer_get_network_log":
+        return await handleGetNetworkLog(args, server);
+      case "puppeteer_set_network_capture":
+        return await handleSetNetworkCapture(args, server);
+      case "puppeteer_add_intercept_rule":
+        return await handleAddInterceptRule(args, server);
+      case "puppeteer_list_intercept_rules":
+        return await handleListInterceptRules(server);
+      case "puppeteer_remove_intercept_rule":
+        return await handleRemoveInterceptRule(args, server);
+
+      // セッションプロファイル系
+      case "puppeteer_save_session":
+        return await handleSaveSession(args, server);
+      case "puppeteer_load_session":
+        return await handleLoadSession(args, server);
+      case "puppeteer_list_sessions":
+        return await handleListSessions();
+      case "puppeteer_delete_session":
+        return await handleDeleteSession(args);
+
+      // ビジュアル比較系
+      case "puppeteer_compare_screenshot":
+        return await handleCompareScreenshot(args, server);
+
+      // 記録・再生系
+      case "puppeteer_start_recording":
+        return await handleStartRecording(args);
+      case "puppeteer_stop_recording":
+        return await handleStopRecording(args);
+      case "puppeteer_run_script":
+        return await handleRunScript(args, server, dispatchToolCall);
+
+      // ファイル操作系
+      case "puppeteer_upload_file":
+        return await handleUploadFile(args, server);
+      case "puppeteer_list_downloads":
+        return await handleListDownloads(server);
+      case "puppeteer_wait_for_download":
+        return await handleWaitForDownload(args, server);
+
+      // ダイアログ系
+      case "puppeteer_set_dialog_handler":
+        return await handleSetDialogHandler(args, server);
+      case "puppeteer_get_dialogs":
+        return await handleGetDialogs(args, server);
+
+      // ブラウザ管理系
+      case "puppeteer_restart_browser":
+        return await handleRestartBrowser(args, server);
+      case "puppeteer_list_launch_profiles":
+        return await handleListLaunchProfiles();
+
+      // アーティファクト系
+      case "puppeteer_list_artifacts":
+        return await handleListArtifacts();
+      case "puppeteer_delete_artifact":
+        return await handleDeleteArtifact(args, server);
+
       // その他
       case "puppeteer_add_script_tag":
         return await handleAddScriptTag(args, server);
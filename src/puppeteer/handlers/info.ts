@@ -4,8 +4,25 @@
 
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { createErrorResponse, createSuccessResponse, ensureBrowser } from "../utils.js";
-import { GetContentArgs, GetTextArgs, GetElementInfoArgs } from "../types.js";
+import { SerializedAXNode } from "puppeteer";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ensureBrowser,
+  ELEMENT_REF_ATTRIBUTE,
+  getCurrentContextFrame,
+  resolveLocator,
+  resolveSelector,
+} from "../utils.js";
+import { clearConsoleLogs, getConsoleLogs } from "../state.js";
+import {
+  GetContentArgs,
+  GetTextArgs,
+  GetElementInfoArgs,
+  AccessibilitySnapshotArgs,
+  ExtractArgs,
+  GetConsoleLogsArgs,
+} from "../types.js";
 
 /**
  * ページタイトルを取得する処理
@@ -66,7 +83,7 @@ export async function handleGetText(args: GetTextArgs, server: Server): Promise<
   try {
     const page = await ensureBrowser(server);
 
-    const element = await page.$(args.selector);
+    const element = await page.$(resolveLocator(args.selector));
     if (!element) {
       return createErrorResponse(`Element not found: ${args.selector}`);
     }
@@ -89,16 +106,13 @@ export async function handleGetElementInfo(
   try {
     const page = await ensureBrowser(server);
 
-    const element = await page.$(args.selector);
+    const element = await page.$(resolveLocator(args.selector));
     if (!element) {
       return createErrorResponse(`Element not found: ${args.selector}`);
     }
 
-    const info = await page.evaluate(
-      (selector, includeStyles, includeAccessibility) => {
-        const el = document.querySelector(selector);
-        if (!el) return null;
-
+    const info = await element.evaluate(
+      (el, includeStyles, includeAccessibility) => {
         const rect = el.getBoundingClientRect();
         const info: any = {
           tagName: el.tagName,
@@ -161,7 +175,6 @@ export async function handleGetElementInfo(
 
         return info;
       },
-      args.selector,
       args.includeStyles,
       args.includeAccessibility,
     );
@@ -173,3 +186,221 @@ export async function handleGetElementInfo(
     return createErrorResponse(`Failed to get element info: ${(error as Error).message}`);
   }
 }
+
+/**
+ * アクセシビリティツリーのスナップショットを取得する処理
+ */
+export async function handleAccessibilitySnapshot(
+  args: AccessibilitySnapshotArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+
+    const root = args.selector ? await page.$(resolveLocator(args.selector)) : undefined;
+    if (args.selector && !root) {
+      return createErrorResponse(`Element not found: ${args.selector}`);
+    }
+
+    const snapshot = await page.accessibility.snapshot({
+      interestingOnly: args.interestingOnly ?? true,
+      root: root ?? undefined,
+    });
+    if (!snapshot) {
+      return createErrorResponse("Accessibility tree is not available for this page");
+    }
+
+    // 各ノードを1行に整形し、要素には参照（ref）を付与
+    const lines: string[] = [];
+    let refCount = 0;
+    const renderNode = async (node: SerializedAXNode, depth: number): Promise<void> => {
+      if (args.maxDepth !== undefined && depth > args.maxDepth) return;
+
+      const ref = await assignElementRef(node);
+      if (ref) refCount++;
+
+      const props: string[] = [];
+      if (node.value !== undefined && node.value !== "")
+        props.push(`value=${JSON.stringify(node.value)}`);
+      if (node.checked !== undefined) props.push(`checked=${node.checked}`);
+      if (node.pressed !== undefined) props.push(`pressed=${node.pressed}`);
+      if (node.selected) props.push("selected");
+      if (node.expanded !== undefined) props.push(`expanded=${node.expanded}`);
+      if (node.level !== undefined) props.push(`level=${node.level}`);
+      if (node.disabled) props.push("disabled");
+      if (node.required) props.push("required");
+      if (node.focused) props.push("focused");
+
+      lines.push(
+        `${"  ".repeat(depth)}- ${node.role}` +
+          (node.name ? ` ${JSON.stringify(node.name)}` : "") +
+          (props.length > 0 ? ` (${props.join(", ")})` : "") +
+          (ref ? ` [ref=${ref}]` : ""),
+      );
+
+      for (const child of node.children ?? []) {
+        await renderNode(child, depth + 1);
+      }
+    };
+    await renderNode(snapshot, 0);
+
+    return createSuccessResponse(
+      `Accessibility snapshot of ${page.url()} (${lines.length} nodes, ${refCount} refs):\n\n` +
+        lines.join("\n"),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to get accessibility snapshot: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * ノードに対応するDOM要素に参照IDを付与して返す
+ * 既に付与済みの要素は同じ参照IDを返すため、同一ドキュメント内では参照が安定する
+ */
+async function assignElementRef(node: SerializedAXNode): Promise<string | null> {
+  const handle = await node.elementHandle().catch(() => null);
+  if (!handle) return null;
+
+  try {
+    return await handle.evaluate((el, attribute) => {
+      if (!(el instanceof Element)) return null;
+
+      let ref = el.getAttribute(attribute);
+      if (!ref) {
+        window.mcpRefCounter = (window.mcpRefCounter ?? 0) + 1;
+        ref = `e${window.mcpRefCounter}`;
+        el.setAttribute(attribute, ref);
+      }
+      return ref;
+    }, ELEMENT_REF_ATTRIBUTE);
+  } finally {
+    await handle.dispose();
+  }
+}
+
+/**
+ * スキーマに従って構造化データを抽出する処理
+ */
+export async function handleExtract(args: ExtractArgs, server: Server): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+
+    const maxPages = args.nextSelector ? (args.maxPages ?? 1) : 1;
+    const navigationTimeout = args.navigationTimeout ?? 10000;
+    const pages: { url: string; data: unknown }[] = [];
+
+    for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+      // puppeteer_switch_to_frameで選択したフレームがあれば、その中から抽出
+      const context = getCurrentContextFrame(page);
+      const data = await context.evaluate(
+        (fields, itemSelector) => {
+          const extractValue = (el: Element, field: (typeof fields)[string]) => {
+            const type = field.type ?? (field.attribute ? "attribute" : "text");
+            if (type === "html") return el.innerHTML;
+            if (type === "attribute") return el.getAttribute(field.attribute ?? "");
+            return ((el as HTMLElement).innerText ?? el.textContent ?? "").trim();
+          };
+
+          const extractRecord = (root: ParentNode) => {
+            const record: Record<string, unknown> = {};
+            for (const [name, field] of Object.entries(fields)) {
+              if (field.multiple) {
+                record[name] = Array.from(root.querySelectorAll(field.selector)).map((el) =>
+                  extractValue(el, field),
+                );
+              } else {
+                const el = root.querySelector(field.selector);
+                record[name] = el ? extractValue(el, field) : null;
+              }
+            }
+            return record;
+          };
+
+          if (itemSelector) {
+            return Array.from(document.querySelectorAll(itemSelector)).map(extractRecord);
+          }
+          return extractRecord(document);
+        },
+        args.fields,
+        args.itemSelector,
+      );
+      pages.push({ url: context.url(), data });
+
+      if (!args.nextSelector || pageNumber === maxPages) break;
+
+      // 次のページへ移動（要素がない、または無効な場合は終了）
+      const next = await context.$(resolveSelector({ selector: args.nextSelector }));
+      const isDisabled = next
+        ? await next.evaluate(
+            (el) =>
+              (el as HTMLButtonElement).disabled || el.getAttribute("aria-disabled") === "true",
+          )
+        : true;
+      if (!next || isDisabled) break;
+
+      // SPAのようにナビゲーションが発生しない場合もあるため、タイムアウトは無視
+      await Promise.all([
+        context
+          .waitForNavigation({ waitUntil: "domcontentloaded", timeout: navigationTimeout })
+          .catch(() => null),
+        next.click(),
+      ]);
+    }
+
+    // itemSelector指定時は全ページのレコードを連結
+    const result = args.itemSelector
+      ? pages.flatMap((p) => p.data as unknown[])
+      : pages.length === 1
+        ? pages[0]?.data
+        : pages.map((p) => p.data);
+    const count = Array.isArray(result) ? `${result.length} record(s)` : "1 record";
+
+    return createSuccessResponse(
+      `Extracted ${count} from ${pages.length} page(s)\n` +
+        `Pages: ${pages.map((p) => p.url).join(", ")}\n\n` +
+        JSON.stringify(result, null, 2),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to extract data: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * キャプチャしたコンソールログを取得する処理
+ */
+export async function handleGetConsoleLogs(
+  args: GetConsoleLogsArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    const pattern = args.pattern ? new RegExp(args.pattern) : undefined;
+    const since = args.since ? Date.parse(args.since) : undefined;
+    if (since !== undefined && Number.isNaN(since)) {
+      return createErrorResponse(`Invalid since timestamp: ${args.since}`);
+    }
+
+    const limit = args.limit ?? 100;
+    const filtered = getConsoleLogs().filter((entry) => {
+      if (args.levels && !args.levels.includes(entry.level)) return false;
+      if (pattern && !pattern.test(entry.text)) return false;
+      if (since !== undefined && Date.parse(entry.timestamp) < since) return false;
+      if (args.tabId && entry.tabId !== args.tabId) return false;
+      return true;
+    });
+    const entries = filtered.slice(-limit);
+
+    if (args.clear) {
+      clearConsoleLogs();
+    }
+
+    return createSuccessResponse(
+      `Console logs: showing ${entries.length} of ${filtered.length} matching message(s)` +
+        (args.clear ? " (log cleared)" : "") +
+        `\n${JSON.stringify(entries, null, 2)}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to get console logs: ${(error as Error).message}`);
+  }
+}
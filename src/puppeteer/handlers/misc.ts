@@ -4,7 +4,12 @@
 
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { createErrorResponse, createSuccessResponse, ensureBrowser } from "../utils.js";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ensureBrowser,
+  resolveLocator,
+} from "../utils.js";
 import { AddScriptTagArgs, ClearInputArgs } from "../types.js";
 
 /**
@@ -52,7 +57,7 @@ export async function handleClearInput(
     const page = await ensureBrowser(server);
 
     // 要素を検索
-    const element = await page.$(args.selector);
+    const element = await page.$(resolveLocator(args.selector));
     if (!element) {
       return createErrorResponse(`Input field not found: ${args.selector}`);
     }
@@ -4,21 +4,31 @@
 
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ElementHandle, Page } from "puppeteer";
 import {
   createErrorResponse,
   createSuccessResponse,
   createSuccessResponseWithImage,
   ensureBrowser,
+  resolveLocator,
+  resolveSelector,
 } from "../utils.js";
-import { saveScreenshot } from "../state.js";
+import { saveArtifact } from "../artifacts.js";
+import { syncRequestInterception } from "../network.js";
 import {
   NavigateArgs,
   ScreenshotArgs,
   ClickArgs,
   FillArgs,
   SelectArgs,
+  FillFormArgs,
+  FormFieldResult,
+  FormFieldValue,
   HoverArgs,
   EvaluateArgs,
+  DragAndDropArgs,
+  ScrollArgs,
+  MouseClickArgs,
 } from "../types.js";
 
 /**
@@ -27,6 +37,10 @@ import {
 export async function handleNavigate(args: NavigateArgs, server: Server): Promise<CallToolResult> {
   try {
     const page = await ensureBrowser(server);
+
+    // 登録済みのインターセプトルールをナビゲーションに反映
+    await syncRequestInterception(page);
+
     await page.goto(args.url);
     return createSuccessResponse(`Navigated to ${args.url}`);
   } catch (error) {
@@ -49,7 +63,7 @@ export async function handleScreenshot(
     await page.setViewport({ width, height });
 
     const screenshot = await (args.selector
-      ? (await page.$(args.selector))?.screenshot({ encoding: "base64" })
+      ? (await page.$(resolveLocator(args.selector)))?.screenshot({ encoding: "base64" })
       : page.screenshot({ encoding: "base64", fullPage: false }));
 
     if (!screenshot) {
@@ -59,13 +73,14 @@ export async function handleScreenshot(
     }
 
     // スクリーンショットを保存
-    saveScreenshot(args.name, screenshot as string);
+    const filePath = await saveArtifact("screenshot", args.name, screenshot as string);
     server.notification({
       method: "notifications/resources/list_changed",
     });
 
     return createSuccessResponseWithImage(
-      `Screenshot '${args.name}' taken at ${width}x${height}`,
+      `Screenshot '${args.name}' taken at ${width}x${height}` +
+        (filePath ? `\nSaved to: ${filePath}` : ""),
       screenshot as string,
     );
   } catch (error) {
@@ -77,12 +92,13 @@ export async function handleScreenshot(
  * 要素のクリックを処理
  */
 export async function handleClick(args: ClickArgs, server: Server): Promise<CallToolResult> {
+  const target = args.ref ?? args.selector;
   try {
     const page = await ensureBrowser(server);
-    await page.click(args.selector);
-    return createSuccessResponse(`Clicked: ${args.selector}`);
+    await page.click(resolveSelector(args));
+    return createSuccessResponse(`Clicked: ${target}`);
   } catch (error) {
-    return createErrorResponse(`Failed to click ${args.selector}: ${(error as Error).message}`);
+    return createErrorResponse(`Failed to click ${target}: ${(error as Error).message}`);
   }
 }
 
@@ -90,13 +106,15 @@ export async function handleClick(args: ClickArgs, server: Server): Promise<Call
  * フォーム入力を処理
  */
 export async function handleFill(args: FillArgs, server: Server): Promise<CallToolResult> {
+  const target = args.ref ?? args.selector;
   try {
     const page = await ensureBrowser(server);
-    await page.waitForSelector(args.selector);
-    await page.type(args.selector, args.value);
-    return createSuccessResponse(`Filled ${args.selector} with: ${args.value}`);
+    const selector = resolveSelector(args);
+    await page.waitForSelector(selector);
+    await page.type(selector, args.value);
+    return createSuccessResponse(`Filled ${target} with: ${args.value}`);
   } catch (error) {
-    return createErrorResponse(`Failed to fill ${args.selector}: ${(error as Error).message}`);
+    return createErrorResponse(`Failed to fill ${target}: ${(error as Error).message}`);
   }
 }
 
@@ -106,22 +124,210 @@ export async function handleFill(args: FillArgs, server: Server): Promise<CallTo
 export async function handleSelect(args: SelectArgs, server: Server): Promise<CallToolResult> {
   try {
     const page = await ensureBrowser(server);
-    await page.waitForSelector(args.selector);
-    await page.select(args.selector, args.value);
+    const selector = resolveLocator(args.selector);
+    await page.waitForSelector(selector);
+    await page.select(selector, args.value);
     return createSuccessResponse(`Selected ${args.value} in ${args.selector}`);
   } catch (error) {
     return createErrorResponse(`Failed to select ${args.selector}: ${(error as Error).message}`);
   }
 }
 
+/**
+ * フォーム項目の検出を待機する時間（ミリ秒）
+ */
+const FORM_FIELD_TIMEOUT = 5000;
+
+/**
+ * 文字入力ではなく値を直接設定する入力タイプ（ロケールに依存する日付入力など）
+ */
+const DIRECT_VALUE_INPUT_TYPES = new Set([
+  "date",
+  "datetime-local",
+  "month",
+  "week",
+  "time",
+  "color",
+  "range",
+]);
+
+/**
+ * フォームの一括入力を処理
+ */
+export async function handleFillForm(args: FillFormArgs, server: Server): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+
+    const fields = Object.entries(args.fields ?? {});
+    if (fields.length === 0) {
+      return createErrorResponse("Must specify at least one field");
+    }
+
+    const results: FormFieldResult[] = [];
+    const elements = new Map<FormFieldResult, ElementHandle<Element>>();
+    for (const [locator, value] of fields) {
+      try {
+        const element = await page.waitForSelector(resolveLocator(locator), {
+          timeout: FORM_FIELD_TIMEOUT,
+        });
+        if (!element) {
+          throw new Error("Element not found");
+        }
+        const result: FormFieldResult = {
+          locator,
+          kind: await fillFormField(element, value),
+          filled: true,
+        };
+        results.push(result);
+        elements.set(result, element);
+      } catch (error) {
+        results.push({ locator, filled: false, error: (error as Error).message });
+      }
+    }
+
+    // 他の項目の入力で検証結果が変わることがあるため、すべて入力してから取得
+    for (const [result, element] of elements) {
+      const validity = await element.evaluate((el) => {
+        const field = el as HTMLInputElement;
+        return field.validity
+          ? { valid: field.validity.valid, validationMessage: field.validationMessage }
+          : undefined;
+      });
+      if (validity) {
+        result.valid = validity.valid;
+        if (validity.validationMessage) {
+          result.validationMessage = validity.validationMessage;
+        }
+      }
+    }
+
+    const filledCount = elements.size;
+    if (filledCount === 0) {
+      return createErrorResponse(
+        `Failed to fill form: no fields were filled\n${JSON.stringify(results, null, 2)}`,
+      );
+    }
+
+    let submission = "";
+    if (args.submitSelector) {
+      await page.click(resolveLocator(args.submitSelector));
+      submission = `\nSubmitted by clicking: ${args.submitSelector}`;
+    } else if (args.submit) {
+      const [firstElement] = elements.values();
+      const submitted = await firstElement?.evaluate((el) => {
+        const form = (el as HTMLInputElement).form ?? el.closest("form");
+        form?.requestSubmit();
+        return form !== null;
+      });
+      submission = submitted ? "\nForm submitted" : "\nNo form found to submit";
+    }
+
+    return createSuccessResponse(
+      `Filled ${filledCount} of ${results.length} field(s)` +
+        submission +
+        `\n${JSON.stringify(results, null, 2)}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to fill form: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 要素の種類に応じてフォーム項目に値を入力し、項目の種類を返す
+ */
+async function fillFormField(
+  element: ElementHandle<Element>,
+  value: FormFieldValue,
+): Promise<string> {
+  const { tagName, type } = await element.evaluate((el) => ({
+    tagName: el.tagName.toLowerCase(),
+    type: el instanceof HTMLInputElement ? el.type.toLowerCase() : "",
+  }));
+
+  if (tagName === "select") {
+    const values = Array.isArray(value) ? value : [String(value)];
+    const selected = await (element as ElementHandle<HTMLSelectElement>).select(...values);
+    if (selected.length === 0) {
+      throw new Error(`No option matches: ${values.join(", ")}`);
+    }
+    return "select";
+  }
+
+  if (Array.isArray(value)) {
+    throw new Error("Array values are only supported for select elements");
+  }
+
+  if (type === "checkbox") {
+    const checked = value === true || /^(true|on|yes|1)$/i.test(String(value));
+    await element.evaluate((el, checked) => {
+      const input = el as HTMLInputElement;
+      if (input.checked !== checked) input.click();
+    }, checked);
+    return type;
+  }
+
+  if (type === "radio") {
+    if (value === false) {
+      throw new Error("Radio buttons cannot be unchecked; specify the value to pick instead");
+    }
+    // trueの場合はその要素、文字列の場合は同じグループ内で値が一致する要素を選択
+    const groupValue = value === true ? null : String(value);
+    const picked = await element.evaluate((el, groupValue) => {
+      const input = el as HTMLInputElement;
+      const scope = input.form ?? document;
+      const radio =
+        groupValue === null
+          ? input
+          : Array.from(scope.querySelectorAll<HTMLInputElement>(`input[type="radio"]`)).find(
+              (candidate) => candidate.name === input.name && candidate.value === groupValue,
+            );
+      if (!radio) return false;
+      if (!radio.checked) radio.click();
+      return true;
+    }, groupValue);
+    if (!picked) {
+      throw new Error(`No radio button with value: ${groupValue}`);
+    }
+    return type;
+  }
+
+  if (DIRECT_VALUE_INPUT_TYPES.has(type)) {
+    // フレームワークの値追跡に反映されるよう、ネイティブのsetterで設定してイベントを発火
+    const applied = await element.evaluate((el, newValue) => {
+      const input = el as HTMLInputElement;
+      const setter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "value")?.set;
+      setter ? setter.call(input, newValue) : (input.value = newValue);
+      input.dispatchEvent(new Event("input", { bubbles: true }));
+      input.dispatchEvent(new Event("change", { bubbles: true }));
+      return input.value;
+    }, String(value));
+    if (applied !== String(value)) {
+      throw new Error(`Value not accepted by ${type} input: ${value}`);
+    }
+    return type;
+  }
+
+  // テキスト入力は既存の値を消してから入力
+  await element.evaluate((el) => {
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+      el.value = "";
+    } else if ((el as HTMLElement).isContentEditable) {
+      el.textContent = "";
+    }
+  });
+  await element.type(String(value));
+  return tagName === "input" ? type || "text" : tagName;
+}
+
 /**
  * 要素へのホバーを処理
  */
 export async function handleHover(args: HoverArgs, server: Server): Promise<CallToolResult> {
   try {
     const page = await ensureBrowser(server);
-    await page.waitForSelector(args.selector);
-    await page.hover(args.selector);
+    const selector = resolveLocator(args.selector);
+    await page.waitForSelector(selector);
+    await page.hover(selector);
     return createSuccessResponse(`Hovered ${args.selector}`);
   } catch (error) {
     return createErrorResponse(`Failed to hover ${args.selector}: ${(error as Error).message}`);
@@ -174,3 +380,168 @@ export async function handleEvaluate(args: EvaluateArgs, server: Server): Promis
     return createErrorResponse(`Script execution failed: ${(error as Error).message}`);
   }
 }
+
+/**
+ * 要素の中心座標、または指定された座標を取得
+ */
+async function resolvePoint(
+  page: Page,
+  selector: string | undefined,
+  x: number | undefined,
+  y: number | undefined,
+  label: string,
+): Promise<{ x: number; y: number }> {
+  if (selector) {
+    const element = await page.waitForSelector(resolveLocator(selector));
+    await element?.scrollIntoView();
+    const box = await element?.boundingBox();
+    if (!box) {
+      throw new Error(`${label} element is not visible: ${selector}`);
+    }
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  }
+  if (x !== undefined && y !== undefined) {
+    return { x, y };
+  }
+  throw new Error(`Must specify either ${label.toLowerCase()}Selector or both coordinates`);
+}
+
+/**
+ * ドラッグ&ドロップを処理
+ */
+export async function handleDragAndDrop(
+  args: DragAndDropArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+
+    const source = await resolvePoint(
+      page,
+      args.sourceSelector,
+      args.sourceX,
+      args.sourceY,
+      "Source",
+    );
+    const target = await resolvePoint(
+      page,
+      args.targetSelector,
+      args.targetX,
+      args.targetY,
+      "Target",
+    );
+
+    await page.mouse.move(source.x, source.y);
+    await page.mouse.down();
+    await page.mouse.move(target.x, target.y, { steps: args.steps ?? 10 });
+    await page.mouse.up();
+
+    return createSuccessResponse(
+      `Dragged from ${args.sourceSelector ?? `(${source.x}, ${source.y})`} ` +
+        `to ${args.targetSelector ?? `(${target.x}, ${target.y})`}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to drag and drop: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * スクロールを処理
+ */
+export async function handleScroll(args: ScrollArgs, server: Server): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+
+    const element = args.selector ? await page.$(resolveLocator(args.selector)) : null;
+    if (args.selector && !element) {
+      return createErrorResponse(`Element not found: ${args.selector}`);
+    }
+
+    if (args.intoView) {
+      if (!element) {
+        return createErrorResponse("intoView requires a selector");
+      }
+      await element.evaluate((el) => el.scrollIntoView({ block: "center" }));
+      return createSuccessResponse(`Scrolled ${args.selector} into view`);
+    }
+
+    // 対象（要素またはページ）のスクロール位置と高さを取得・操作するページ内関数
+    const scrollBy = (target: Element | null, dx: number, dy: number | null) => {
+      const el = target ?? document.scrollingElement;
+      if (!el) return null;
+      el.scrollBy(dx, dy ?? (target ? el.clientHeight : window.innerHeight));
+      return { scrollTop: el.scrollTop, scrollLeft: el.scrollLeft, scrollHeight: el.scrollHeight };
+    };
+
+    if (args.untilNoNewContent) {
+      const maxScrolls = args.maxScrolls ?? 20;
+      const delay = args.delay ?? 500;
+      let scrolls = 0;
+      let position = await page.evaluate(scrollBy, element, 0, 0);
+      let previousHeight = position?.scrollHeight ?? 0;
+
+      while (scrolls < maxScrolls) {
+        // 末尾までスクロールし、追加読み込みを待つ
+        position = await page.evaluate(scrollBy, element, 0, Number.MAX_SAFE_INTEGER);
+        scrolls++;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        position = await page.evaluate(scrollBy, element, 0, 0);
+
+        const height = position?.scrollHeight ?? 0;
+        if (height <= previousHeight) break;
+        previousHeight = height;
+      }
+
+      return createSuccessResponse(
+        `Scrolled ${scrolls} time(s) until no new content` +
+          (scrolls >= maxScrolls ? ` (stopped at maxScrolls: ${maxScrolls})` : "") +
+          `\nContent height: ${position?.scrollHeight}px\n` +
+          `Scroll position: ${position?.scrollTop}px`,
+      );
+    }
+
+    // x・yとも省略した場合のみ1画面分下にスクロールし、xのみの場合は縦にはスクロールしない
+    const position = await page.evaluate(
+      scrollBy,
+      element,
+      args.x ?? 0,
+      args.y ?? (args.x === undefined ? null : 0),
+    );
+
+    return createSuccessResponse(
+      `Scrolled ${args.selector ?? "page"}\n` +
+        `Scroll position: x=${position?.scrollLeft}, y=${position?.scrollTop}\n` +
+        `Content height: ${position?.scrollHeight}px`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to scroll: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 座標指定のクリックを処理
+ */
+export async function handleMouseClick(
+  args: MouseClickArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+
+    await page.mouse.click(args.x, args.y, {
+      button: args.button ?? "left",
+      count: args.clickCount ?? 1,
+      delay: args.delay,
+    });
+
+    return createSuccessResponse(
+      `Clicked at (${args.x}, ${args.y})` +
+        (args.button && args.button !== "left" ? ` with ${args.button} button` : "") +
+        (args.clickCount && args.clickCount > 1 ? ` ${args.clickCount} times` : ""),
+    );
+  } catch (error) {
+    return createErrorResponse(
+      `Failed to click at (${args.x}, ${args.y}): ${(error as Error).message}`,
+    );
+  }
+}
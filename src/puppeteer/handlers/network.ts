@@ -0,0 +1,186 @@
+/**
+ * ネットワーク系ハンドラー
+ */
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ensureBrowser,
+  validateAllowedPath,
+} from "../utils.js";
+import { matchesUrlPattern, syncAllRequestInterception } from "../network.js";
+import {
+  addInterceptRule,
+  clearInterceptRules,
+  clearNetworkLog,
+  getInterceptRules,
+  getNetworkCaptureOptions,
+  getNetworkLog,
+  removeInterceptRule,
+  setNetworkCaptureOptions,
+} from "../state.js";
+import {
+  AddInterceptRuleArgs,
+  GetNetworkLogArgs,
+  RemoveInterceptRuleArgs,
+  SetNetworkCaptureArgs,
+} from "../types.js";
+
+/**
+ * ネットワークログを取得する処理
+ */
+export async function handleGetNetworkLog(
+  args: GetNetworkLogArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    const limit = args.limit ?? 50;
+    const filtered = getNetworkLog().filter((entry) => {
+      if (args.urlPattern && !matchesUrlPattern(entry.url, args.urlPattern)) return false;
+      if (args.resourceTypes && !args.resourceTypes.includes(entry.resourceType)) return false;
+      if (args.tabId && entry.tabId !== args.tabId) return false;
+      if (args.failedOnly && !entry.failure && (entry.status ?? 0) < 400) return false;
+      return true;
+    });
+
+    const entries = filtered.slice(-limit).map((entry) => {
+      const { requestHeaders, responseHeaders, postData, responseBody, ...summary } = entry;
+      return {
+        ...summary,
+        ...(args.includeHeaders ? { requestHeaders, responseHeaders } : {}),
+        ...(args.includeBodies ? { postData, responseBody } : {}),
+      };
+    });
+
+    if (args.clear) {
+      clearNetworkLog();
+    }
+
+    return createSuccessResponse(
+      `Network log: showing ${entries.length} of ${filtered.length} matching request(s)` +
+        (args.clear ? " (log cleared)" : "") +
+        `\n${JSON.stringify(entries, null, 2)}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to get network log: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * ネットワークキャプチャを設定する処理
+ */
+export async function handleSetNetworkCapture(
+  args: SetNetworkCaptureArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    setNetworkCaptureOptions({
+      ...(args.enabled !== undefined ? { enabled: args.enabled } : {}),
+      ...(args.captureBodies !== undefined ? { captureBodies: args.captureBodies } : {}),
+      ...(args.maxBodySize !== undefined ? { maxBodySize: args.maxBodySize } : {}),
+    });
+
+    const options = getNetworkCaptureOptions();
+    return createSuccessResponse(
+      `Network capture updated\n` +
+        `Enabled: ${options.enabled}\n` +
+        `Capture bodies: ${options.captureBodies}\n` +
+        `Max body size: ${options.maxBodySize}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to configure network capture: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * インターセプトルールを追加する処理
+ */
+export async function handleAddInterceptRule(
+  args: AddInterceptRuleArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    if (!args.urlPattern && !args.resourceTypes && !args.method) {
+      return createErrorResponse(
+        "Must specify at least one of urlPattern, resourceTypes, or method",
+      );
+    }
+    if (args.action === "fulfill" && args.body !== undefined && args.bodyFile) {
+      return createErrorResponse("Specify either body or bodyFile, not both");
+    }
+
+    // ファイルは許可ディレクトリ内のもののみ使用可能
+    const bodyFile = args.bodyFile ? await validateAllowedPath(args.bodyFile) : undefined;
+
+    const rule = addInterceptRule({ ...args, bodyFile });
+    await syncAllRequestInterception();
+
+    return createSuccessResponse(
+      `Intercept rule added: ${rule.id}\n` +
+        `Action: ${rule.action}\n` +
+        `Match: ${JSON.stringify({
+          urlPattern: rule.urlPattern,
+          resourceTypes: rule.resourceTypes,
+          method: rule.method,
+        })}` +
+        (bodyFile ? `\nBody file: ${bodyFile}` : ""),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to add intercept rule: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * インターセプトルールの一覧を取得する処理
+ */
+export async function handleListInterceptRules(server: Server): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    const rules = getInterceptRules();
+    return createSuccessResponse(
+      `Intercept rules (${rules.length}):\n${JSON.stringify(rules, null, 2)}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to list intercept rules: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * インターセプトルールを削除する処理
+ */
+export async function handleRemoveInterceptRule(
+  args: RemoveInterceptRuleArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    if (args.all) {
+      const count = getInterceptRules().length;
+      clearInterceptRules();
+      await syncAllRequestInterception();
+      return createSuccessResponse(`Removed all ${count} intercept rule(s)`);
+    }
+
+    if (!args.ruleId) {
+      return createErrorResponse("Must specify either ruleId or all");
+    }
+    if (!removeInterceptRule(args.ruleId)) {
+      return createErrorResponse(`Intercept rule not found: ${args.ruleId}`);
+    }
+    await syncAllRequestInterception();
+
+    return createSuccessResponse(`Removed intercept rule: ${args.ruleId}`);
+  } catch (error) {
+    return createErrorResponse(`Failed to remove intercept rule: ${(error as Error).message}`);
+  }
+}
@@ -4,9 +4,9 @@
 
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { KnownDevices } from "puppeteer";
+import { KnownDevices, PredefinedNetworkConditions } from "puppeteer";
 import { createErrorResponse, createSuccessResponse, ensureBrowser } from "../utils.js";
-import { savePdf } from "../state.js";
+import { saveArtifact } from "../artifacts.js";
 import {
   SetViewportArgs,
   GoBackArgs,
@@ -14,8 +14,22 @@ import {
   ReloadArgs,
   PdfArgs,
   EmulateDeviceArgs,
+  PerformanceMetricsArgs,
+  EmulateThrottlingArgs,
 } from "../types.js";
 
+/**
+ * Web Vitalsの評価しきい値（good以下 / poorより大きい）
+ */
+const WEB_VITAL_THRESHOLDS: Record<string, [number, number]> = {
+  lcp: [2500, 4000],
+  fcp: [1800, 3000],
+  cls: [0.1, 0.25],
+  fid: [100, 300],
+  inp: [200, 500],
+  ttfb: [800, 1800],
+};
+
 /**
  * ビューポートサイズを設定する処理
  */
@@ -150,7 +164,7 @@ export async function handlePdf(args: PdfArgs, server: Server): Promise<CallTool
     const pdfBase64 = pdfBuffer.toString("base64");
 
     // PDFを保存
-    savePdf(pdfName, pdfBase64);
+    const filePath = await saveArtifact("pdf", pdfName, pdfBase64);
 
     // リソースリストを更新
     server.notification({
@@ -161,7 +175,8 @@ export async function handlePdf(args: PdfArgs, server: Server): Promise<CallTool
       `PDF generated: ${pdfName}\n` +
         `Format: ${args.format || "default"}\n` +
         `Print background: ${args.printBackground ?? false}\n` +
-        `Size: ${(pdfBuffer.length / 1024).toFixed(2)} KB`,
+        `Size: ${(pdfBuffer.length / 1024).toFixed(2)} KB` +
+        (filePath ? `\nSaved to: ${filePath}` : ""),
     );
   } catch (error) {
     return createErrorResponse(`Failed to generate PDF: ${(error as Error).message}`);
@@ -202,3 +217,193 @@ export async function handleEmulateDevice(
     return createErrorResponse(`Failed to emulate device: ${(error as Error).message}`);
   }
 }
+
+/**
+ * レイアウトシフトのエントリ（layout-shift）
+ */
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+/**
+ * インタラクションIDを持つイベントタイミングのエントリ（event）
+ */
+interface InteractionEntry extends PerformanceEventTiming {
+  interactionId: number;
+}
+
+/**
+ * パフォーマンス指標を取得する処理
+ */
+export async function handlePerformanceMetrics(
+  args: PerformanceMetricsArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+
+    if (args.reload) {
+      await page.reload({ waitUntil: args.waitUntil || "load" });
+    }
+
+    const timing = await page.evaluate(async () => {
+      // bufferedオプションで過去のエントリを収集
+      const observe = (type: string) =>
+        new Promise<PerformanceEntry[]>((resolve) => {
+          if (!PerformanceObserver.supportedEntryTypes.includes(type)) {
+            resolve([]);
+            return;
+          }
+          const entries: PerformanceEntry[] = [];
+          const observer = new PerformanceObserver((list) => entries.push(...list.getEntries()));
+          observer.observe({ type, buffered: true });
+          setTimeout(() => {
+            observer.disconnect();
+            resolve(entries);
+          }, 100);
+        });
+
+      const [lcpEntries, layoutShifts, firstInputs, events] = await Promise.all([
+        observe("largest-contentful-paint"),
+        observe("layout-shift"),
+        observe("first-input"),
+        observe("event"),
+      ]);
+
+      const nav = performance.getEntriesByType("navigation")[0] as
+        | PerformanceNavigationTiming
+        | undefined;
+      const fcp = performance.getEntriesByName("first-contentful-paint")[0];
+      const firstInput = firstInputs[0] as PerformanceEventTiming | undefined;
+      const interactions = (events as InteractionEntry[]).filter((e) => e.interactionId > 0);
+
+      const resources = performance.getEntriesByType("resource") as PerformanceResourceTiming[];
+      const byType: Record<string, number> = {};
+      for (const resource of resources) {
+        byType[resource.initiatorType] = (byType[resource.initiatorType] ?? 0) + 1;
+      }
+
+      const round = (value: number | undefined) =>
+        value === undefined ? null : Math.round(value * 10) / 10;
+
+      return {
+        navigation: nav
+          ? {
+              dns: round(nav.domainLookupEnd - nav.domainLookupStart),
+              tcp: round(nav.connectEnd - nav.connectStart),
+              tls: round(
+                nav.secureConnectionStart > 0 ? nav.connectEnd - nav.secureConnectionStart : 0,
+              ),
+              ttfb: round(nav.responseStart - nav.requestStart),
+              responseTime: round(nav.responseEnd - nav.responseStart),
+              domInteractive: round(nav.domInteractive),
+              domContentLoaded: round(nav.domContentLoadedEventEnd),
+              load: round(nav.loadEventEnd),
+              transferSize: nav.transferSize,
+            }
+          : null,
+        vitals: {
+          lcp: round(lcpEntries[lcpEntries.length - 1]?.startTime),
+          fcp: round(fcp?.startTime),
+          // 直近の入力に起因しないレイアウトシフトの合計（セッションウィンドウは考慮しない近似値）
+          cls:
+            Math.round(
+              (layoutShifts as LayoutShiftEntry[])
+                .filter((e) => !e.hadRecentInput)
+                .reduce((sum, e) => sum + e.value, 0) * 1000,
+            ) / 1000,
+          fid: firstInput ? round(firstInput.processingStart - firstInput.startTime) : null,
+          // 観測されたインタラクションの最大処理時間（INPの近似値）
+          inp: interactions.length > 0 ? Math.max(...interactions.map((e) => e.duration)) : null,
+          ttfb: nav ? round(nav.responseStart) : null,
+        },
+        resources: {
+          count: resources.length,
+          byType,
+          transferSize: resources.reduce((sum, r) => sum + r.transferSize, 0),
+        },
+      };
+    });
+
+    // Web Vitalsの評価を付与
+    const ratings: Record<string, string> = {};
+    for (const [name, value] of Object.entries(timing.vitals)) {
+      const thresholds = WEB_VITAL_THRESHOLDS[name];
+      if (value === null || !thresholds) continue;
+      ratings[name] =
+        value <= thresholds[0] ? "good" : value <= thresholds[1] ? "needs-improvement" : "poor";
+    }
+
+    const metrics = await page.metrics();
+    const toMB = (bytes: number | undefined) =>
+      bytes === undefined ? null : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+    const report = {
+      url: page.url(),
+      navigationTiming: timing.navigation,
+      webVitals: timing.vitals,
+      ratings,
+      runtime: {
+        jsHeapUsed: toMB(metrics.JSHeapUsedSize),
+        jsHeapTotal: toMB(metrics.JSHeapTotalSize),
+        domNodes: metrics.Nodes,
+        jsEventListeners: metrics.JSEventListeners,
+        layoutCount: metrics.LayoutCount,
+        scriptDuration: metrics.ScriptDuration,
+        taskDuration: metrics.TaskDuration,
+      },
+      requests: timing.resources,
+    };
+
+    return createSuccessResponse(
+      `Performance metrics (times in ms):\n${JSON.stringify(report, null, 2)}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to get performance metrics: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * CPU・ネットワークのスロットリングをエミュレートする処理
+ */
+export async function handleEmulateThrottling(
+  args: EmulateThrottlingArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+
+    if (args.cpuRate === undefined && args.network === undefined) {
+      return createErrorResponse("Must specify cpuRate and/or network");
+    }
+
+    if (args.cpuRate !== undefined) {
+      if (args.cpuRate < 1) {
+        return createErrorResponse(`cpuRate must be 1 or greater: ${args.cpuRate}`);
+      }
+      await page.emulateCPUThrottling(args.cpuRate === 1 ? null : args.cpuRate);
+    }
+
+    if (args.network !== undefined) {
+      await page.setOfflineMode(args.network === "offline");
+      if (args.network === "none" || args.network === "offline") {
+        await page.emulateNetworkConditions(null);
+      } else {
+        const conditions = PredefinedNetworkConditions[args.network];
+        if (!conditions) {
+          return createErrorResponse(`Unknown network preset: ${args.network}`);
+        }
+        await page.emulateNetworkConditions(conditions);
+      }
+    }
+
+    return createSuccessResponse(
+      `Throttling updated\n` +
+        (args.cpuRate !== undefined ? `CPU slowdown: ${args.cpuRate}x\n` : "") +
+        (args.network !== undefined ? `Network: ${args.network}` : ""),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to emulate throttling: ${(error as Error).message}`);
+  }
+}
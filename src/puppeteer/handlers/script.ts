@@ -0,0 +1,259 @@
+/**
+ * 記録・再生系ハンドラー
+ */
+
+import fs from "fs/promises";
+import { CallToolResult, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ensureBrowser,
+  resolveSelector,
+  validateAllowedPath,
+} from "../utils.js";
+import { addRecordedStep, getRecording, setRecording } from "../state.js";
+import {
+  RecordedScript,
+  RunScriptArgs,
+  StartRecordingArgs,
+  StopRecordingArgs,
+  ToolCallDispatcher,
+} from "../types.js";
+
+/**
+ * 記録対象のツール（ページの操作・待機、タブやフレームの切り替え）
+ * ブラウザの再起動、セッションやアーティファクトの保存・削除、インターセプトルールの管理、
+ * 取得系、記録・再生の制御は、再生時にユーザーのデータや環境を変更しうるため記録しない
+ */
+const RECORDABLE_TOOLS = new Set([
+  "puppeteer_navigate",
+  "puppeteer_go_back",
+  "puppeteer_go_forward",
+  "puppeteer_reload",
+  "puppeteer_click",
+  "puppeteer_fill",
+  "puppeteer_select",
+  "puppeteer_fill_form",
+  "puppeteer_hover",
+  "puppeteer_drag_and_drop",
+  "puppeteer_scroll",
+  "puppeteer_mouse_click",
+  "puppeteer_keyboard_press",
+  "puppeteer_keyboard_type",
+  "puppeteer_clear_input",
+  "puppeteer_evaluate",
+  "puppeteer_add_script_tag",
+  "puppeteer_screenshot",
+  "puppeteer_pdf",
+  "puppeteer_set_viewport",
+  "puppeteer_emulate_device",
+  "puppeteer_emulate_throttling",
+  "puppeteer_set_cookies",
+  "puppeteer_authenticate",
+  "puppeteer_set_dialog_handler",
+  "puppeteer_upload_file",
+  "puppeteer_wait_for_download",
+  "puppeteer_wait_for_selector",
+  "puppeteer_wait_for_timeout",
+  "puppeteer_wait_for_function",
+  "puppeteer_wait_for_navigation",
+  "puppeteer_new_tab",
+  "puppeteer_switch_tab",
+  "puppeteer_close_tab",
+  "puppeteer_switch_to_frame",
+  "puppeteer_switch_to_main_frame",
+  "puppeteer_evaluate_in_frame",
+]);
+
+/**
+ * 記録中かつ記録対象のツールであれば、ステップとして記録する引数を作成
+ * スナップショットの要素参照（ref）はそのスナップショットでしか有効でないため、
+ * 実行前に要素を一意に特定するCSSセレクタに置き換えます
+ * 記録しない場合はundefinedを返します
+ */
+export async function prepareRecordedArgs(
+  name: string,
+  args: any,
+  server: Server,
+): Promise<any | undefined> {
+  if (!getRecording() || !RECORDABLE_TOOLS.has(name)) return undefined;
+
+  const recordedArgs = structuredClone(args ?? {});
+  if (typeof recordedArgs.ref !== "string") return recordedArgs;
+
+  const page = await ensureBrowser(server);
+  const element = await page.$(resolveSelector({ ref: recordedArgs.ref }));
+  if (!element) {
+    throw new Error(`Element ref ${recordedArgs.ref} not found (take a new snapshot)`);
+  }
+  try {
+    const selector = await element.evaluate((el) => {
+      // 一意なidを持つ祖先（または要素自身）から、要素までのパスを組み立てる
+      const parts: string[] = [];
+      let node: Element = el;
+      while (true) {
+        if (node.id && document.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1) {
+          parts.unshift(`#${CSS.escape(node.id)}`);
+          break;
+        }
+        const parent = node.parentElement;
+        if (!parent) {
+          // Shadow DOM内の要素はドキュメントから辿れないため特定できない
+          if (node !== document.documentElement) return null;
+          parts.unshift(node.localName);
+          break;
+        }
+        const siblings = Array.from(parent.children).filter((c) => c.localName === node.localName);
+        parts.unshift(
+          siblings.length > 1
+            ? `${node.localName}:nth-of-type(${siblings.indexOf(node) + 1})`
+            : node.localName,
+        );
+        node = parent;
+      }
+      return parts.join(" > ");
+    });
+    if (!selector) {
+      throw new Error(`Cannot convert element ref ${recordedArgs.ref} to a stable selector`);
+    }
+
+    delete recordedArgs.ref;
+    recordedArgs.selector = `css=${selector}`;
+    return recordedArgs;
+  } finally {
+    await element.dispose();
+  }
+}
+
+/**
+ * 成功したツール呼び出しをステップとして記録
+ * 引数はprepareRecordedArgsで作成したもの（undefinedの場合は記録しない）
+ */
+export function recordToolCall(
+  name: string,
+  recordedArgs: any | undefined,
+  result: CallToolResult,
+): void {
+  if (recordedArgs === undefined || !getRecording() || result.isError) return;
+
+  addRecordedStep({ tool: name, args: recordedArgs });
+}
+
+/**
+ * 記録を開始する処理
+ */
+export async function handleStartRecording(args: StartRecordingArgs): Promise<CallToolResult> {
+  const current = getRecording();
+  if (current) {
+    return createErrorResponse(
+      `Already recording '${current.name}' (${current.steps.length} steps). Stop it first.`,
+    );
+  }
+
+  const name = args.name ?? `script_${Date.now()}`;
+  setRecording({
+    version: 1,
+    name,
+    createdAt: new Date().toISOString(),
+    steps: [],
+  });
+
+  return createSuccessResponse(`Started recording: ${name}`);
+}
+
+/**
+ * 記録を終了する処理
+ */
+export async function handleStopRecording(args: StopRecordingArgs): Promise<CallToolResult> {
+  try {
+    const script = getRecording();
+    if (!script) {
+      return createErrorResponse("Not recording");
+    }
+
+    const json = JSON.stringify(script, null, 2);
+    let savedPath: string | undefined;
+    if (args.path) {
+      savedPath = await validateAllowedPath(args.path);
+      await fs.writeFile(savedPath, json);
+    }
+    setRecording(undefined);
+
+    return createSuccessResponse(
+      `Stopped recording: ${script.name} (${script.steps.length} steps)\n` +
+        (savedPath ? `Saved to: ${savedPath}\n` : "") +
+        `\n${json}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to stop recording: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 記録したスクリプトを再生する処理
+ */
+export async function handleRunScript(
+  args: RunScriptArgs,
+  server: Server,
+  dispatch: ToolCallDispatcher,
+): Promise<CallToolResult> {
+  try {
+    let script: RecordedScript;
+    if (args.path) {
+      const scriptPath = await validateAllowedPath(args.path);
+      script = JSON.parse(await fs.readFile(scriptPath, "utf-8")) as RecordedScript;
+    } else if (args.script) {
+      script = args.script;
+    } else {
+      return createErrorResponse("Must specify either path or script");
+    }
+
+    if (!Array.isArray(script.steps)) {
+      return createErrorResponse("Invalid script: 'steps' must be an array");
+    }
+
+    const stopOnFailure = args.stopOnFailure ?? true;
+    const results: {
+      step: number;
+      tool: string;
+      success: boolean;
+      elapsed: number;
+      message: string;
+    }[] = [];
+
+    for (const [index, step] of script.steps.entries()) {
+      // スクリプト内からの再帰的な再生は行わない
+      const startTime = Date.now();
+      const result =
+        step.tool === "puppeteer_run_script"
+          ? createErrorResponse("Nested puppeteer_run_script is not supported")
+          : await dispatch(step.tool, step.args, server);
+
+      const text = result.content
+        .filter((c): c is TextContent => c.type === "text")
+        .map((c) => c.text)
+        .join("\n");
+      results.push({
+        step: index + 1,
+        tool: step.tool,
+        success: !result.isError,
+        elapsed: Date.now() - startTime,
+        message: text.length > 200 ? text.substring(0, 200) + "..." : text,
+      });
+
+      if (result.isError && stopOnFailure) break;
+    }
+
+    const failed = results.filter((r) => !r.success).length;
+    const summary =
+      `Script '${script.name}': ${results.length - failed} of ${script.steps.length} step(s) succeeded` +
+      (failed > 0 ? `, ${failed} failed` : "") +
+      (results.length < script.steps.length ? " (stopped on failure)" : "");
+
+    const text = `${summary}\n${JSON.stringify(results, null, 2)}`;
+    return failed > 0 ? createErrorResponse(text) : createSuccessResponse(text);
+  } catch (error) {
+    return createErrorResponse(`Failed to run script: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * セッションプロファイル系ハンドラー
+ */
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { createErrorResponse, createSuccessResponse, ensureBrowser } from "../utils.js";
+import {
+  deleteSessionProfile,
+  getProfilesDirectory,
+  installSessionStorage,
+  listSessionProfiles,
+  readSessionProfile,
+  restoreSessionCookies,
+  saveSessionProfile,
+} from "../session.js";
+import { getTabs, setLoadedSession } from "../state.js";
+import { SaveSessionArgs, LoadSessionArgs, DeleteSessionArgs } from "../types.js";
+
+/**
+ * セッションをプロファイルとして保存する処理
+ */
+export async function handleSaveSession(
+  args: SaveSessionArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+    const profile = await saveSessionProfile(page, args.name);
+
+    return createSuccessResponse(
+      `Session saved: ${profile.name}\n` +
+        `Cookies: ${profile.cookies.length}\n` +
+        `Origins with storage: ${profile.origins.map((o) => o.origin).join(", ") || "(none)"}\n` +
+        `Directory: ${getProfilesDirectory()}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to save session: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * プロファイルからセッションを復元する処理
+ */
+export async function handleLoadSession(
+  args: LoadSessionArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+    const profile = await readSessionProfile(args.name);
+
+    await restoreSessionCookies(page, profile);
+
+    // 開いているタブと今後開かれるタブにWebストレージを復元
+    setLoadedSession(profile);
+    for (const tab of getTabs()) {
+      await installSessionStorage(tab.page);
+    }
+
+    if (args.url) {
+      await page.goto(args.url);
+    }
+
+    return createSuccessResponse(
+      `Session loaded: ${profile.name} (saved at ${profile.savedAt})\n` +
+        `Cookies: ${profile.cookies.length}\n` +
+        `Origins with storage: ${profile.origins.map((o) => o.origin).join(", ") || "(none)"}` +
+        (args.url ? `\nNavigated to ${args.url}` : ""),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to load session: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 保存済みプロファイルの一覧を取得する処理
+ */
+export async function handleListSessions(): Promise<CallToolResult> {
+  try {
+    const profiles = await listSessionProfiles();
+    const summary = profiles.map((profile) => ({
+      name: profile.name,
+      savedAt: profile.savedAt,
+      cookies: profile.cookies.length,
+      origins: profile.origins.map((o) => o.origin),
+    }));
+
+    return createSuccessResponse(
+      `Saved sessions in ${getProfilesDirectory()} (${summary.length}):\n` +
+        JSON.stringify(summary, null, 2),
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to list sessions: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * プロファイルを削除する処理
+ */
+export async function handleDeleteSession(args: DeleteSessionArgs): Promise<CallToolResult> {
+  try {
+    await deleteSessionProfile(args.name);
+    return createSuccessResponse(`Session deleted: ${args.name}`);
+  } catch (error) {
+    return createErrorResponse(`Failed to delete session: ${(error as Error).message}`);
+  }
+}
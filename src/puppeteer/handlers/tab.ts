@@ -0,0 +1,117 @@
+/**
+ * タブ操作系ハンドラー
+ */
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ensureBrowser,
+  registerPage,
+} from "../utils.js";
+import { getActiveTabId, getTab, getTabs, removeTab, setActiveTabId } from "../state.js";
+import { NewTabArgs, SwitchTabArgs, CloseTabArgs } from "../types.js";
+
+/**
+ * 新しいタブを開く処理
+ */
+export async function handleNewTab(args: NewTabArgs, server: Server): Promise<CallToolResult> {
+  try {
+    const currentPage = await ensureBrowser(server);
+    const page = await currentPage.browser().newPage();
+    const tabId = registerPage(page, server);
+
+    if (args.url) {
+      await page.goto(args.url);
+    }
+
+    const activate = args.activate ?? true;
+    if (activate) {
+      setActiveTabId(tabId);
+      await page.bringToFront();
+    }
+
+    return createSuccessResponse(
+      `Opened new tab: ${tabId}\n` + `URL: ${page.url()}\n` + `Active: ${activate}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to open new tab: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 開いているタブの一覧を取得する処理
+ */
+export async function handleListTabs(server: Server): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+    const activeTabId = getActiveTabId();
+
+    const tabs = await Promise.all(
+      getTabs().map(async (tab) => ({
+        id: tab.id,
+        url: tab.page.url(),
+        title: await tab.page.title().catch(() => "(unavailable)"),
+        active: tab.id === activeTabId,
+      })),
+    );
+
+    return createSuccessResponse(`Open tabs (${tabs.length}):\n${JSON.stringify(tabs, null, 2)}`);
+  } catch (error) {
+    return createErrorResponse(`Failed to list tabs: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * アクティブなタブを切り替える処理
+ */
+export async function handleSwitchTab(
+  args: SwitchTabArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    const tab = getTab(args.tabId);
+    if (!tab) {
+      const available = getTabs()
+        .map((t) => t.id)
+        .join(", ");
+      return createErrorResponse(`Tab not found: ${args.tabId} (available: ${available})`);
+    }
+
+    setActiveTabId(tab.id);
+    await tab.page.bringToFront();
+
+    return createSuccessResponse(`Switched to tab: ${tab.id}\n` + `URL: ${tab.page.url()}`);
+  } catch (error) {
+    return createErrorResponse(`Failed to switch tab: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * タブを閉じる処理
+ */
+export async function handleCloseTab(args: CloseTabArgs, server: Server): Promise<CallToolResult> {
+  try {
+    await ensureBrowser(server);
+
+    const tabId = args.tabId ?? getActiveTabId();
+    const tab = tabId ? getTab(tabId) : undefined;
+    if (!tab) {
+      return createErrorResponse(`Tab not found: ${tabId ?? "(no active tab)"}`);
+    }
+
+    await tab.page.close();
+    removeTab(tab.id);
+
+    const activeTab = getActiveTabId();
+    return createSuccessResponse(
+      `Closed tab: ${tab.id}\n` +
+        `Active tab: ${activeTab ?? "(none, a new tab opens on next use)"}`,
+    );
+  } catch (error) {
+    return createErrorResponse(`Failed to close tab: ${(error as Error).message}`);
+  }
+}
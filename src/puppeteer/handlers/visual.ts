@@ -0,0 +1,142 @@
+/**
+ * ビジュアル比較系ハンドラー
+ */
+
+import fs from "fs/promises";
+import { CallToolResult, ImageContent, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  createSuccessResponseWithImage,
+  ensureBrowser,
+  resolveLocator,
+  validateAllowedPath,
+} from "../utils.js";
+import { getBaseline, saveBaseline } from "../state.js";
+import { readArtifact, saveArtifact } from "../artifacts.js";
+import { CompareScreenshotArgs } from "../types.js";
+
+/**
+ * スクリーンショットをベースラインと比較する処理
+ */
+export async function handleCompareScreenshot(
+  args: CompareScreenshotArgs,
+  server: Server,
+): Promise<CallToolResult> {
+  try {
+    const page = await ensureBrowser(server);
+    const width = args.width ?? 800;
+    const height = args.height ?? 600;
+
+    // puppeteer_screenshotと同じ条件で撮影
+    await page.setViewport({ width, height });
+    const current = (await (args.selector
+      ? (await page.$(resolveLocator(args.selector)))?.screenshot({ encoding: "base64" })
+      : page.screenshot({ encoding: "base64", fullPage: false }))) as string | undefined;
+
+    if (!current) {
+      return createErrorResponse(
+        args.selector ? `Element not found: ${args.selector}` : "Screenshot failed",
+      );
+    }
+
+    // ベースラインを取得（ファイル指定 > 保存済みベースライン > 同名のスクリーンショット）
+    const baselinePath = args.baselineFile
+      ? await validateAllowedPath(args.baselineFile)
+      : undefined;
+    let baseline: string | undefined;
+    if (baselinePath) {
+      baseline = await fs
+        .readFile(baselinePath)
+        .then((buffer) => buffer.toString("base64"))
+        .catch(() => undefined);
+    } else {
+      baseline = getBaseline(args.name) ?? (await readArtifact("screenshot", args.name));
+    }
+
+    const storeBaseline = async () => {
+      if (baselinePath) {
+        await fs.writeFile(baselinePath, Buffer.from(current, "base64"));
+      } else {
+        saveBaseline(args.name, current);
+      }
+    };
+
+    if (!baseline) {
+      await storeBaseline();
+      return createSuccessResponseWithImage(
+        `Baseline '${args.name}' created` + (baselinePath ? ` at ${baselinePath}` : ""),
+        current,
+      );
+    }
+
+    const baselineImage = PNG.sync.read(Buffer.from(baseline, "base64"));
+    const currentImage = PNG.sync.read(Buffer.from(current, "base64"));
+
+    // 撮影した画像をリソースとして保存
+    await saveArtifact("screenshot", `${args.name}-current`, current);
+
+    if (
+      baselineImage.width !== currentImage.width ||
+      baselineImage.height !== currentImage.height
+    ) {
+      if (args.updateBaseline) {
+        await storeBaseline();
+      }
+      server.notification({ method: "notifications/resources/list_changed" });
+      return createSuccessResponse(
+        `Screenshot '${args.name}' differs in size from the baseline\n` +
+          `Baseline: ${baselineImage.width}x${baselineImage.height}\n` +
+          `Current: ${currentImage.width}x${currentImage.height}\n` +
+          `Mismatch: 100%` +
+          (args.updateBaseline ? "\nBaseline updated" : ""),
+      );
+    }
+
+    const { width: imageWidth, height: imageHeight } = baselineImage;
+    const diffImage = new PNG({ width: imageWidth, height: imageHeight });
+    const mismatchedPixels = pixelmatch(
+      baselineImage.data,
+      currentImage.data,
+      diffImage.data,
+      imageWidth,
+      imageHeight,
+      { threshold: args.threshold ?? 0.1 },
+    );
+    const totalPixels = imageWidth * imageHeight;
+    const mismatch = (mismatchedPixels / totalPixels) * 100;
+
+    const diff = PNG.sync.write(diffImage).toString("base64");
+    await saveArtifact("screenshot", `${args.name}-diff`, diff);
+    server.notification({ method: "notifications/resources/list_changed" });
+
+    if (args.updateBaseline) {
+      await storeBaseline();
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            `Screenshot '${args.name}' compared with baseline (${imageWidth}x${imageHeight})\n` +
+            `Mismatched pixels: ${mismatchedPixels} of ${totalPixels}\n` +
+            `Mismatch: ${mismatch.toFixed(2)}%\n` +
+            `Diff image: screenshot://${args.name}-diff` +
+            (args.updateBaseline ? "\nBaseline updated" : ""),
+        } as TextContent,
+        {
+          type: "image",
+          data: diff,
+          mimeType: "image/png",
+        } as ImageContent,
+      ],
+      isError: false,
+    };
+  } catch (error) {
+    return createErrorResponse(`Failed to compare screenshot: ${(error as Error).message}`);
+  }
+}
@@ -4,7 +4,12 @@
 
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { createErrorResponse, createSuccessResponse, ensureBrowser } from "../utils.js";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ensureBrowser,
+  resolveLocator,
+} from "../utils.js";
 import {
   WaitForSelectorArgs,
   WaitForTimeoutArgs,
@@ -33,17 +38,14 @@ export async function handleWaitForSelector(
     }
 
     // 要素が現れるまで待機
-    const element = await page.waitForSelector(args.selector, options);
+    const element = await page.waitForSelector(resolveLocator(args.selector), options);
 
     if (!element) {
       return createErrorResponse(`Element not found: ${args.selector}`);
     }
 
     // 要素の情報を取得
-    const elementInfo = await page.evaluate((selector) => {
-      const el = document.querySelector(selector);
-      if (!el) return null;
-
+    const elementInfo = await element.evaluate((el) => {
       const rect = el.getBoundingClientRect();
       return {
         tagName: el.tagName,
@@ -56,7 +58,7 @@ export async function handleWaitForSelector(
         },
         text: (el as HTMLElement).innerText || "",
       };
-    }, args.selector);
+    });
 
     const elapsed = Date.now() - startTime;
 
@@ -10,6 +10,8 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import fs from "fs";
+import path from "path";
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
@@ -22,16 +24,30 @@ import { TOOLS } from "./tools/index.js";
 
 // ハンドラーのインポート
 import { handleToolCall } from "./handlers/index.js";
+import { expandHome } from "./utils.js";
 
 // 状態管理のインポート
-import {
-  getBrowser,
-  getConsoleLogs,
-  getScreenshot,
-  getScreenshotNames,
-  getPdf,
-  getPdfNames,
-} from "./state.js";
+import { getBrowser, getConsoleLogs, getNetworkLog, setAllowedDirectories } from "./state.js";
+import { listArtifacts, readArtifact } from "./artifacts.js";
+import { formatConsoleEntry } from "./console.js";
+
+// コマンドライン引数で指定されたディレクトリをファイルアクセスの許可ディレクトリとする
+// （モックレスポンスのファイルなど、ローカルファイルを扱うツールで使用）
+const allowedDirectories = process.argv.slice(2).map((dir) => {
+  const resolved = path.resolve(expandHome(dir));
+  try {
+    const realPath = fs.realpathSync(resolved);
+    if (!fs.statSync(realPath).isDirectory()) {
+      console.error(`Error: ${dir} is not a directory`);
+      process.exit(1);
+    }
+    return realPath;
+  } catch (error) {
+    console.error(`Error accessing directory ${dir}:`, error);
+    process.exit(1);
+  }
+});
+setAllowedDirectories(allowedDirectories);
 
 // サーバーインスタンス
 const server = new Server(
@@ -48,25 +64,37 @@ const server = new Server(
 );
 
 // リクエストハンドラの設定
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-  resources: [
-    {
-      uri: "console://logs",
-      mimeType: "text/plain",
-      name: "Browser console logs",
-    },
-    ...getScreenshotNames().map((name) => ({
-      uri: `screenshot://${name}`,
-      mimeType: "image/png",
-      name: `Screenshot: ${name}`,
-    })),
-    ...getPdfNames().map((name) => ({
-      uri: `pdf://${name}`,
-      mimeType: "application/pdf",
-      name: `PDF: ${name}`,
-    })),
-  ],
-}));
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const artifacts = await listArtifacts();
+  return {
+    resources: [
+      {
+        uri: "console://logs",
+        mimeType: "text/plain",
+        name: "Browser console logs",
+      },
+      {
+        uri: "network://log",
+        mimeType: "application/json",
+        name: "Browser network log",
+      },
+      ...artifacts
+        .filter((artifact) => artifact.kind === "screenshot")
+        .map(({ uri, name }) => ({
+          uri,
+          mimeType: "image/png",
+          name: `Screenshot: ${name}`,
+        })),
+      ...artifacts
+        .filter((artifact) => artifact.kind === "pdf")
+        .map(({ uri, name }) => ({
+          uri,
+          mimeType: "application/pdf",
+          name: `PDF: ${name}`,
+        })),
+    ],
+  };
+});
 
 server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   const uri = request.params.uri.toString();
@@ -77,7 +105,19 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
         {
           uri,
           mimeType: "text/plain",
-          text: getConsoleLogs().join("\n"),
+          text: getConsoleLogs().map(formatConsoleEntry).join("\n"),
+        },
+      ],
+    };
+  }
+
+  if (uri === "network://log") {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(getNetworkLog(), null, 2),
         },
       ],
     };
@@ -89,7 +129,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     if (!name) {
       throw new Error(`Invalid screenshot URI: ${uri}`);
     }
-    const screenshot = getScreenshot(name);
+    const screenshot = await readArtifact("screenshot", name);
     if (screenshot) {
       return {
         contents: [
@@ -109,7 +149,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     if (!name) {
       throw new Error(`Invalid PDF URI: ${uri}`);
     }
-    const pdf = getPdf(name);
+    const pdf = await readArtifact("pdf", name);
     if (pdf) {
       return {
         contents: [
@@ -0,0 +1,135 @@
+/**
+ * Puppeteer MCP ブラウザ起動プロファイル
+ *
+ * このモジュールは、設定ファイルと環境変数から起動プロファイルを読み込み、
+ * Puppeteerの起動オプションとページごとのエミュレーション設定に変換します。
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { Browser, Page, PuppeteerLaunchOptions } from "puppeteer";
+import { LaunchConfigFile, LaunchProfile } from "./types.js";
+import { expandHome } from "./utils.js";
+
+/**
+ * 設定がない場合の起動プロファイル
+ */
+const DEFAULT_LAUNCH_PROFILE: LaunchProfile = {
+  headless: false,
+};
+
+/**
+ * 環境変数から起動プロファイルを作成
+ */
+function loadEnvironmentProfile(): LaunchProfile {
+  const env = process.env;
+  const profile: LaunchProfile = {};
+
+  if (env.PUPPETEER_HEADLESS !== undefined) {
+    profile.headless = ["true", "1", "yes"].includes(env.PUPPETEER_HEADLESS.toLowerCase());
+  }
+  if (env.PUPPETEER_EXECUTABLE_PATH) profile.executablePath = env.PUPPETEER_EXECUTABLE_PATH;
+  if (env.PUPPETEER_PROXY) profile.proxy = env.PUPPETEER_PROXY;
+  if (env.PUPPETEER_LOCALE) profile.locale = env.PUPPETEER_LOCALE;
+  if (env.PUPPETEER_TIMEZONE) profile.timezone = env.PUPPETEER_TIMEZONE;
+  if (env.PUPPETEER_ARGS) profile.args = env.PUPPETEER_ARGS.split(/\s+/).filter(Boolean);
+
+  return profile;
+}
+
+/**
+ * 環境変数PUPPETEER_LAUNCH_CONFIGで指定された設定ファイルを読み込み
+ */
+export async function loadLaunchConfig(): Promise<LaunchConfigFile> {
+  const configPath = process.env.PUPPETEER_LAUNCH_CONFIG;
+  if (!configPath) {
+    return {};
+  }
+
+  const resolved = path.resolve(expandHome(configPath));
+  try {
+    return JSON.parse(await fs.readFile(resolved, "utf-8")) as LaunchConfigFile;
+  } catch (error) {
+    throw new Error(`Failed to read launch config ${resolved}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 起動プロファイルを解決
+ * 優先順位: デフォルト < 環境変数 < 設定ファイルのプロファイル < 上書き指定
+ */
+export async function resolveLaunchProfile(
+  name?: string,
+  overrides?: LaunchProfile,
+): Promise<{ name: string | undefined; profile: LaunchProfile }> {
+  const config = await loadLaunchConfig();
+  const profileName = name ?? process.env.PUPPETEER_LAUNCH_PROFILE ?? config.defaultProfile;
+
+  let fileProfile: LaunchProfile = {};
+  if (profileName) {
+    const found = config.profiles?.[profileName];
+    if (!found) {
+      const available = Object.keys(config.profiles ?? {}).join(", ") || "(none)";
+      throw new Error(`Launch profile not found: ${profileName} (available: ${available})`);
+    }
+    fileProfile = found;
+  }
+
+  return {
+    name: profileName,
+    profile: {
+      ...DEFAULT_LAUNCH_PROFILE,
+      ...loadEnvironmentProfile(),
+      ...fileProfile,
+      ...overrides,
+    },
+  };
+}
+
+/**
+ * 起動プロファイルをPuppeteerの起動オプションに変換
+ */
+export function buildLaunchOptions(profile: LaunchProfile): PuppeteerLaunchOptions {
+  const args = [...(profile.args ?? [])];
+  if (profile.proxy) args.push(`--proxy-server=${profile.proxy}`);
+  if (profile.locale) args.push(`--lang=${profile.locale}`);
+
+  return {
+    headless: profile.headless ?? false,
+    executablePath: profile.executablePath,
+    args,
+    // nullはウィンドウサイズに追従させる指定のため、未指定とは区別する
+    ...(profile.defaultViewport !== undefined ? { defaultViewport: profile.defaultViewport } : {}),
+    ...(profile.timezone ? { env: { ...process.env, TZ: profile.timezone } } : {}),
+  };
+}
+
+/**
+ * ブラウザ全体に起動プロファイルの権限設定を適用
+ */
+export async function applyBrowserProfile(browser: Browser, profile: LaunchProfile): Promise<void> {
+  if (profile.geolocation) {
+    // 位置情報の許可ダイアログで停止しないよう、全オリジンに権限を付与
+    const client = await browser.target().createCDPSession();
+    try {
+      await client.send("Browser.grantPermissions", { permissions: ["geolocation"] });
+    } finally {
+      await client.detach();
+    }
+  }
+}
+
+/**
+ * ページに起動プロファイルのエミュレーション設定を適用
+ */
+export async function applyPageProfile(page: Page, profile: LaunchProfile): Promise<void> {
+  if (profile.timezone) {
+    await page.emulateTimezone(profile.timezone);
+  }
+  if (profile.locale) {
+    await page.setExtraHTTPHeaders({ "Accept-Language": profile.locale });
+  }
+  if (profile.geolocation) {
+    await page.setGeolocation(profile.geolocation);
+  }
+}
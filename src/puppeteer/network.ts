@@ -0,0 +1,236 @@
+/**
+ * Puppeteer MCP ネットワークキャプチャ・インターセプト
+ *
+ * このモジュールは、ページごとのリクエスト/レスポンスを記録してネットワークログとして
+ * 状態に保存し、登録されたインターセプトルールをリクエストに適用します。
+ */
+
+import fs from "fs/promises";
+import { HTTPRequest, HTTPResponse, InterceptResolutionAction, Page } from "puppeteer";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { addNetworkEntry, getInterceptRules, getNetworkCaptureOptions, getTabs } from "./state.js";
+import { InterceptRule, NetworkLogEntry } from "./types.js";
+
+/**
+ * リクエストインターセプトが有効化されているページ
+ */
+const interceptionEnabledPages = new WeakSet<Page>();
+
+/**
+ * テキストとして保存するレスポンスのContent-Type
+ */
+const TEXTUAL_CONTENT_TYPE =
+  /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|.*\+(json|xml))/i;
+
+/**
+ * URLがパターンに一致するかを判定
+ * パターンに`*`が含まれる場合はワイルドカードとして扱い、含まれない場合は部分一致で判定します
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes("*")) {
+    return url.includes(pattern);
+  }
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`).test(url);
+}
+
+/**
+ * ページにネットワークキャプチャのリスナーを設定
+ */
+export function attachNetworkCapture(page: Page, tabId: string, server: Server): void {
+  const entries = new WeakMap<HTTPRequest, NetworkLogEntry>();
+
+  const notifyUpdated = () => {
+    server.notification({
+      method: "notifications/resources/updated",
+      params: { uri: "network://log" },
+    });
+  };
+
+  page.on("request", (request) => {
+    if (!getNetworkCaptureOptions().enabled) return;
+
+    const entry = addNetworkEntry({
+      tabId,
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      requestHeaders: request.headers(),
+      postData: request.postData(),
+      startTime: Date.now(),
+    });
+    entries.set(request, entry);
+  });
+
+  page.on("requestfinished", async (request) => {
+    const entry = entries.get(request);
+    if (!entry) return;
+
+    const response = request.response();
+    completeEntry(entry);
+    if (response) {
+      await recordResponse(entry, response);
+    }
+    notifyUpdated();
+  });
+
+  page.on("requestfailed", (request) => {
+    const entry = entries.get(request);
+    if (!entry) return;
+
+    completeEntry(entry);
+    entry.failure = request.failure()?.errorText ?? "Unknown error";
+    notifyUpdated();
+  });
+}
+
+/**
+ * エントリの終了時刻と所要時間を記録
+ */
+function completeEntry(entry: NetworkLogEntry): void {
+  entry.endTime = Date.now();
+  entry.duration = entry.endTime - entry.startTime;
+}
+
+/**
+ * レスポンス情報をエントリに記録
+ */
+async function recordResponse(entry: NetworkLogEntry, response: HTTPResponse): Promise<void> {
+  const headers = response.headers();
+  entry.status = response.status();
+  entry.statusText = response.statusText();
+  entry.responseHeaders = headers;
+  entry.fromCache = response.fromCache();
+
+  const contentLength = headers["content-length"];
+  if (contentLength !== undefined) {
+    entry.size = parseInt(contentLength, 10);
+  }
+
+  const options = getNetworkCaptureOptions();
+  if (!options.captureBodies) return;
+
+  try {
+    // リダイレクトやプリフライトのレスポンスにはボディがない
+    const buffer = await response.buffer();
+    entry.size = buffer.length;
+
+    if (!TEXTUAL_CONTENT_TYPE.test(headers["content-type"] ?? "")) {
+      entry.responseBody = `(binary, ${buffer.length} bytes)`;
+      return;
+    }
+
+    const text = buffer.toString("utf-8");
+    entry.responseBody =
+      text.length > options.maxBodySize
+        ? text.substring(0, options.maxBodySize) + "\n... (truncated)"
+        : text;
+  } catch {
+    entry.responseBody = "(body unavailable)";
+  }
+}
+
+/**
+ * リクエストに一致する最初のインターセプトルールを検索
+ */
+function findMatchingRule(request: HTTPRequest): InterceptRule | undefined {
+  return getInterceptRules().find((rule) => {
+    if (rule.urlPattern && !matchesUrlPattern(request.url(), rule.urlPattern)) return false;
+    if (rule.resourceTypes && !rule.resourceTypes.includes(request.resourceType())) return false;
+    if (rule.method && rule.method.toUpperCase() !== request.method()) return false;
+    return true;
+  });
+}
+
+/**
+ * ルールに従ってリクエストを処理
+ */
+async function applyRule(request: HTTPRequest, rule: InterceptRule): Promise<void> {
+  rule.hits++;
+
+  switch (rule.action) {
+    case "block":
+      await request.abort("blockedbyclient");
+      return;
+
+    case "modify_headers": {
+      const headers = { ...request.headers(), ...rule.requestHeaders };
+      for (const name of rule.removeHeaders ?? []) {
+        delete headers[name.toLowerCase()];
+      }
+      await request.continue({ headers });
+      return;
+    }
+
+    case "fulfill": {
+      // ファイルはルール登録時に許可ディレクトリ内であることを検証済み
+      const body = rule.bodyFile ? await fs.readFile(rule.bodyFile) : (rule.body ?? "");
+      await request.respond({
+        status: rule.status ?? 200,
+        contentType: rule.contentType,
+        headers: rule.responseHeaders,
+        body,
+      });
+      return;
+    }
+  }
+}
+
+/**
+ * ページにインターセプトルールを適用するリスナーを設定
+ */
+export function attachRequestInterception(page: Page): void {
+  page.on("request", async (request) => {
+    // インターセプトが無効な間に発行されたリクエストは処理不要
+    if (
+      request.interceptResolutionState().action === InterceptResolutionAction.Disabled ||
+      request.isInterceptResolutionHandled()
+    ) {
+      return;
+    }
+
+    try {
+      const rule = findMatchingRule(request);
+      if (rule) {
+        await applyRule(request, rule);
+      } else {
+        await request.continue();
+      }
+    } catch (error) {
+      console.error(`Request interception failed for ${request.url()}:`, error);
+      if (!request.isInterceptResolutionHandled()) {
+        await request.continue().catch(() => {});
+      }
+    }
+  });
+
+  // 既にルールが登録されている場合（ポップアップなど）は即座に有効化
+  syncRequestInterception(page).catch((error) => {
+    console.error("Failed to enable request interception:", error);
+  });
+}
+
+/**
+ * ルールの有無に合わせてページのリクエストインターセプトを有効化/無効化
+ */
+export async function syncRequestInterception(page: Page): Promise<void> {
+  const shouldEnable = getInterceptRules().length > 0;
+  if (shouldEnable === interceptionEnabledPages.has(page) || page.isClosed()) return;
+
+  if (shouldEnable) {
+    interceptionEnabledPages.add(page);
+  } else {
+    interceptionEnabledPages.delete(page);
+  }
+  await page.setRequestInterception(shouldEnable);
+}
+
+/**
+ * すべてのタブのリクエストインターセプトをルールの有無に合わせる
+ */
+export async function syncAllRequestInterception(): Promise<void> {
+  await Promise.all(getTabs().map((tab) => syncRequestInterception(tab.page)));
+}
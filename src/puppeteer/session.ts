@@ -0,0 +1,217 @@
+/**
+ * Puppeteer MCP セッションプロファイル
+ *
+ * このモジュールは、Cookie・localStorage・sessionStorageを名前付きプロファイルとして
+ * ディスクに保存し、ブラウザに復元する機能を提供します。
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Page } from "puppeteer";
+import { getLoadedSession, getTabs } from "./state.js";
+import { CookieObject, OriginStorage, SessionProfile } from "./types.js";
+import { expandHome } from "./utils.js";
+
+/**
+ * プロファイル名として許可する文字
+ */
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * ページごとに登録したストレージ復元スクリプトの識別子
+ */
+const storageScriptIds = new WeakMap<Page, string>();
+
+/**
+ * プロファイルの保存先ディレクトリを取得
+ * 環境変数PUPPETEER_PROFILES_DIRで変更可能
+ */
+export function getProfilesDirectory(): string {
+  const configured = process.env.PUPPETEER_PROFILES_DIR;
+  return configured
+    ? path.resolve(expandHome(configured))
+    : path.join(os.homedir(), ".claude-ts-mcps", "puppeteer", "profiles");
+}
+
+/**
+ * プロファイル名を検証し、プロファイルファイルのパスを返す
+ */
+function getProfilePath(name: string): string {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid profile name: ${name} (only letters, digits, '_' and '-' are allowed)`,
+    );
+  }
+  return path.join(getProfilesDirectory(), `${name}.json`);
+}
+
+/**
+ * 現在のブラウザの状態からセッションプロファイルを作成してディスクに保存
+ */
+export async function saveSessionProfile(page: Page, name: string): Promise<SessionProfile> {
+  const profilePath = getProfilePath(name);
+
+  // page.cookies()は現在のURLのCookieのみのため、CDPでブラウザ全体のCookieを取得
+  const client = await page.createCDPSession();
+  let cookies: CookieObject[];
+  try {
+    const result = await client.send("Network.getAllCookies");
+    cookies = result.cookies.map((cookie) => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      // セッションCookieはexpiresが-1
+      expires: cookie.session ? undefined : cookie.expires,
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure,
+      sameSite: cookie.sameSite,
+    }));
+  } finally {
+    await client.detach();
+  }
+
+  // Webストレージは開いている各タブのオリジンから収集
+  const origins = new Map<string, OriginStorage>();
+  for (const tab of getTabs()) {
+    const storage = await tab.page
+      .evaluate(() => {
+        const toRecord = (storage: Storage) => {
+          const record: Record<string, string> = {};
+          for (let i = 0; i < storage.length; i++) {
+            const key = storage.key(i);
+            if (key !== null) {
+              record[key] = storage.getItem(key) ?? "";
+            }
+          }
+          return record;
+        };
+        return {
+          origin: location.origin,
+          localStorage: toRecord(localStorage),
+          sessionStorage: toRecord(sessionStorage),
+        };
+      })
+      .catch(() => undefined);
+
+    // about:blankなどの不透明なオリジンは対象外
+    if (storage && storage.origin !== "null") {
+      origins.set(storage.origin, storage);
+    }
+  }
+
+  const profile: SessionProfile = {
+    name,
+    savedAt: new Date().toISOString(),
+    cookies,
+    origins: Array.from(origins.values()),
+  };
+
+  await fs.mkdir(getProfilesDirectory(), { recursive: true });
+  await fs.writeFile(profilePath, JSON.stringify(profile, null, 2), { mode: 0o600 });
+
+  return profile;
+}
+
+/**
+ * ディスクからセッションプロファイルを読み込み
+ */
+export async function readSessionProfile(name: string): Promise<SessionProfile> {
+  const profilePath = getProfilePath(name);
+  try {
+    return JSON.parse(await fs.readFile(profilePath, "utf-8")) as SessionProfile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Session profile not found: ${name}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 保存済みのセッションプロファイル名を一覧
+ */
+export async function listSessionProfiles(): Promise<SessionProfile[]> {
+  const files = await fs.readdir(getProfilesDirectory()).catch(() => [] as string[]);
+  const profiles: SessionProfile[] = [];
+  for (const file of files.filter((f) => f.endsWith(".json")).sort()) {
+    const profile = await readSessionProfile(path.basename(file, ".json")).catch(() => undefined);
+    if (profile) {
+      profiles.push(profile);
+    }
+  }
+  return profiles;
+}
+
+/**
+ * セッションプロファイルを削除
+ */
+export async function deleteSessionProfile(name: string): Promise<void> {
+  const profilePath = getProfilePath(name);
+  try {
+    await fs.unlink(profilePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Session profile not found: ${name}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * セッションプロファイルのCookieをブラウザに設定
+ */
+export async function restoreSessionCookies(page: Page, profile: SessionProfile): Promise<void> {
+  const client = await page.createCDPSession();
+  try {
+    await client.send("Network.setCookies", { cookies: profile.cookies });
+  } finally {
+    await client.detach();
+  }
+}
+
+/**
+ * 読み込み済みセッションのWebストレージをページに復元するスクリプトを登録
+ * 以降にそのオリジンのドキュメントが読み込まれた際、未設定のキーのみを書き込みます
+ * 現在表示中のドキュメントがプロファイルのオリジンの場合は即座に上書きします
+ */
+export async function installSessionStorage(page: Page): Promise<void> {
+  const profile = getLoadedSession();
+  if (!profile || profile.origins.length === 0) return;
+
+  // 以前に読み込んだセッションの復元スクリプトは置き換える
+  const previousId = storageScriptIds.get(page);
+  if (previousId) {
+    await page.removeScriptToEvaluateOnNewDocument(previousId);
+  }
+
+  const { identifier } = await page.evaluateOnNewDocument((origins: OriginStorage[]) => {
+    const storage = origins.find((o) => o.origin === location.origin);
+    if (!storage) return;
+    try {
+      for (const [key, value] of Object.entries(storage.localStorage)) {
+        if (localStorage.getItem(key) === null) localStorage.setItem(key, value);
+      }
+      for (const [key, value] of Object.entries(storage.sessionStorage)) {
+        if (sessionStorage.getItem(key) === null) sessionStorage.setItem(key, value);
+      }
+    } catch {
+      // ストレージにアクセスできないドキュメント（サンドボックスなど）は無視
+    }
+  }, profile.origins);
+  storageScriptIds.set(page, identifier);
+
+  await page
+    .evaluate((origins: OriginStorage[]) => {
+      const storage = origins.find((o) => o.origin === location.origin);
+      if (!storage) return;
+      for (const [key, value] of Object.entries(storage.localStorage)) {
+        localStorage.setItem(key, value);
+      }
+      for (const [key, value] of Object.entries(storage.sessionStorage)) {
+        sessionStorage.setItem(key, value);
+      }
+    }, profile.origins)
+    .catch(() => {});
+}
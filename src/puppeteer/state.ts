@@ -1,22 +1,82 @@
 /**
  * Puppeteer MCP グローバル状態管理
  *
- * このモジュールは、ブラウザインスタンス、ページ、フレーム、
+ * このモジュールは、ブラウザインスタンス、タブ（ページ）、フレーム、
  * リソースなどのグローバル状態を管理します。
  */
 
 import { Browser, Page, Frame } from "puppeteer";
+import {
+  ConsoleLogEntry,
+  DialogLogEntry,
+  DialogPolicy,
+  DialogType,
+  DownloadEntry,
+  InterceptRule,
+  LaunchProfile,
+  NetworkCaptureOptions,
+  NetworkLogEntry,
+  RecordedScript,
+  RecordedStep,
+  SessionProfile,
+} from "./types.js";
+
+/**
+ * コンソールログの最大保持件数
+ */
+const MAX_CONSOLE_LOG_ENTRIES = 1000;
+
+/**
+ * ネットワークログの最大保持件数
+ */
+const MAX_NETWORK_LOG_ENTRIES = 1000;
+
+/**
+ * ダイアログログの最大保持件数
+ */
+const MAX_DIALOG_LOG_ENTRIES = 1000;
+
+/**
+ * メモリ上に保持する比較用ベースライン画像の最大件数
+ */
+const MAX_BASELINES = 20;
+
+/**
+ * タブごとの状態の型定義
+ */
+export interface TabState {
+  id: string;
+  page: Page;
+  currentFrame: Page | Frame | undefined;
+  createdAt: number;
+}
 
 /**
  * グローバル状態の型定義
  */
 interface GlobalState {
   browser: Browser | undefined;
-  page: Page | undefined;
-  currentFrame: Page | Frame | undefined;
-  consoleLogs: string[];
-  screenshots: Map<string, string>;
-  pdfs: Map<string, string>;
+  launchProfileName: string | undefined;
+  launchProfile: LaunchProfile | undefined;
+  tabs: Map<string, TabState>;
+  activeTabId: string | undefined;
+  nextTabNumber: number;
+  consoleLogs: ConsoleLogEntry[];
+  nextConsoleEntryId: number;
+  networkLog: NetworkLogEntry[];
+  nextNetworkEntryId: number;
+  networkCapture: NetworkCaptureOptions;
+  interceptRules: InterceptRule[];
+  nextInterceptRuleNumber: number;
+  allowedDirectories: string[];
+  loadedSession: SessionProfile | undefined;
+  recording: RecordedScript | undefined;
+  downloads: Map<string, DownloadEntry>;
+  dialogPolicy: DialogPolicy;
+  dialogPolicyByType: Map<DialogType, DialogPolicy>;
+  dialogLog: DialogLogEntry[];
+  resources: Map<string, string>;
+  baselines: Map<string, string>;
 }
 
 /**
@@ -24,11 +84,31 @@ interface GlobalState {
  */
 const state: GlobalState = {
   browser: undefined,
-  page: undefined,
-  currentFrame: undefined,
+  launchProfileName: undefined,
+  launchProfile: undefined,
+  tabs: new Map<string, TabState>(),
+  activeTabId: undefined,
+  nextTabNumber: 1,
   consoleLogs: [],
-  screenshots: new Map<string, string>(),
-  pdfs: new Map<string, string>(),
+  nextConsoleEntryId: 1,
+  networkLog: [],
+  nextNetworkEntryId: 1,
+  networkCapture: {
+    enabled: true,
+    captureBodies: false,
+    maxBodySize: 100 * 1024,
+  },
+  interceptRules: [],
+  nextInterceptRuleNumber: 1,
+  allowedDirectories: [],
+  loadedSession: undefined,
+  recording: undefined,
+  downloads: new Map<string, DownloadEntry>(),
+  dialogPolicy: { action: "accept" },
+  dialogPolicyByType: new Map<DialogType, DialogPolicy>(),
+  dialogLog: [],
+  resources: new Map<string, string>(),
+  baselines: new Map<string, string>(),
 };
 
 /**
@@ -46,87 +126,447 @@ export function setBrowser(browser: Browser | undefined): void {
 }
 
 /**
- * ページインスタンスを取得
+ * ブラウザの起動に使用したプロファイルを取得
+ */
+export function getLaunchProfile(): {
+  name: string | undefined;
+  profile: LaunchProfile | undefined;
+} {
+  return { name: state.launchProfileName, profile: state.launchProfile };
+}
+
+/**
+ * ブラウザの起動に使用するプロファイルを設定
+ */
+export function setLaunchProfile(
+  name: string | undefined,
+  profile: LaunchProfile | undefined,
+): void {
+  state.launchProfileName = name;
+  state.launchProfile = profile;
+}
+
+/**
+ * ブラウザとタブの状態をリセット
+ * ログやリソース、ルールなどの設定は保持します
+ */
+export function resetBrowserState(): void {
+  state.browser = undefined;
+  state.tabs.clear();
+  state.activeTabId = undefined;
+}
+
+/**
+ * アクティブなタブを取得
+ */
+export function getActiveTab(): TabState | undefined {
+  return state.activeTabId ? state.tabs.get(state.activeTabId) : undefined;
+}
+
+/**
+ * アクティブなタブIDを取得
+ */
+export function getActiveTabId(): string | undefined {
+  return state.activeTabId;
+}
+
+/**
+ * アクティブなタブを切り替え
+ */
+export function setActiveTabId(tabId: string | undefined): void {
+  state.activeTabId = tabId;
+}
+
+/**
+ * ページをタブとして登録し、タブIDを返す
+ * 既に登録済みのページの場合は既存のタブIDを返す
+ */
+export function addTab(page: Page): string {
+  const existing = findTabIdByPage(page);
+  if (existing) {
+    return existing;
+  }
+
+  const id = `tab-${state.nextTabNumber++}`;
+  state.tabs.set(id, {
+    id,
+    page,
+    currentFrame: undefined,
+    createdAt: Date.now(),
+  });
+  return id;
+}
+
+/**
+ * タブを取得
+ */
+export function getTab(tabId: string): TabState | undefined {
+  return state.tabs.get(tabId);
+}
+
+/**
+ * すべてのタブを作成順に取得
+ */
+export function getTabs(): TabState[] {
+  return Array.from(state.tabs.values());
+}
+
+/**
+ * ページに対応するタブIDを検索
+ */
+export function findTabIdByPage(page: Page): string | undefined {
+  for (const tab of state.tabs.values()) {
+    if (tab.page === page) {
+      return tab.id;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * タブの登録を解除
+ * アクティブなタブを削除した場合は、最後に作成されたタブをアクティブにする
+ */
+export function removeTab(tabId: string): void {
+  state.tabs.delete(tabId);
+  if (state.activeTabId === tabId) {
+    const remaining = getTabs();
+    state.activeTabId = remaining[remaining.length - 1]?.id;
+  }
+}
+
+/**
+ * ページインスタンスを取得（アクティブなタブのページ）
  */
 export function getPage(): Page | undefined {
-  return state.page;
+  return getActiveTab()?.page;
 }
 
 /**
  * ページインスタンスを設定
+ * 未登録のページはタブとして登録され、アクティブになる
  */
 export function setPage(page: Page | undefined): void {
-  state.page = page;
+  state.activeTabId = page ? addTab(page) : undefined;
 }
 
 /**
- * 現在のフレームコンテキストを取得
+ * 現在のフレームコンテキストを取得（アクティブなタブ単位）
  */
 export function getCurrentFrame(): Page | Frame | undefined {
-  return state.currentFrame;
+  return getActiveTab()?.currentFrame;
 }
 
 /**
- * 現在のフレームコンテキストを設定
+ * 現在のフレームコンテキストを設定（アクティブなタブ単位）
  */
 export function setCurrentFrame(frame: Page | Frame | undefined): void {
-  state.currentFrame = frame;
+  const tab = getActiveTab();
+  if (tab) {
+    tab.currentFrame = frame;
+  }
 }
 
 /**
- * コンソールログを追加
+ * コンソールログのエントリを追加し、採番したエントリを返す
+ * 上限を超えた場合は古いエントリから破棄する
  */
-export function addConsoleLog(log: string): void {
-  state.consoleLogs.push(log);
+export function addConsoleLog(entry: Omit<ConsoleLogEntry, "id">): ConsoleLogEntry {
+  const added: ConsoleLogEntry = { id: state.nextConsoleEntryId++, ...entry };
+  state.consoleLogs.push(added);
+  if (state.consoleLogs.length > MAX_CONSOLE_LOG_ENTRIES) {
+    state.consoleLogs.splice(0, state.consoleLogs.length - MAX_CONSOLE_LOG_ENTRIES);
+  }
+  return added;
 }
 
 /**
  * すべてのコンソールログを取得
  */
-export function getConsoleLogs(): string[] {
+export function getConsoleLogs(): ConsoleLogEntry[] {
   return state.consoleLogs;
 }
 
 /**
- * スクリーンショットを保存
+ * コンソールログをクリア
+ */
+export function clearConsoleLogs(): void {
+  state.consoleLogs = [];
+}
+
+/**
+ * ネットワークログのエントリを追加し、採番したエントリを返す
+ * 上限を超えた場合は古いエントリから破棄する
+ */
+export function addNetworkEntry(entry: Omit<NetworkLogEntry, "id">): NetworkLogEntry {
+  const added: NetworkLogEntry = { id: state.nextNetworkEntryId++, ...entry };
+  state.networkLog.push(added);
+  if (state.networkLog.length > MAX_NETWORK_LOG_ENTRIES) {
+    state.networkLog.splice(0, state.networkLog.length - MAX_NETWORK_LOG_ENTRIES);
+  }
+  return added;
+}
+
+/**
+ * すべてのネットワークログを取得
+ */
+export function getNetworkLog(): NetworkLogEntry[] {
+  return state.networkLog;
+}
+
+/**
+ * ネットワークログをクリア
+ */
+export function clearNetworkLog(): void {
+  state.networkLog = [];
+}
+
+/**
+ * ネットワークキャプチャの設定を取得
+ */
+export function getNetworkCaptureOptions(): NetworkCaptureOptions {
+  return state.networkCapture;
+}
+
+/**
+ * ネットワークキャプチャの設定を更新
  */
-export function saveScreenshot(name: string, data: string): void {
-  state.screenshots.set(name, data);
+export function setNetworkCaptureOptions(options: Partial<NetworkCaptureOptions>): void {
+  state.networkCapture = { ...state.networkCapture, ...options };
 }
 
 /**
- * スクリーンショットを取得
+ * インターセプトルールを追加し、採番したルールを返す
  */
-export function getScreenshot(name: string): string | undefined {
-  return state.screenshots.get(name);
+export function addInterceptRule(rule: Omit<InterceptRule, "id" | "hits">): InterceptRule {
+  const added: InterceptRule = { id: `rule-${state.nextInterceptRuleNumber++}`, hits: 0, ...rule };
+  state.interceptRules.push(added);
+  return added;
 }
 
 /**
- * すべてのスクリーンショット名を取得
+ * インターセプトルールを削除
+ * 削除できた場合はtrueを返す
  */
-export function getScreenshotNames(): string[] {
-  return Array.from(state.screenshots.keys());
+export function removeInterceptRule(ruleId: string): boolean {
+  const before = state.interceptRules.length;
+  state.interceptRules = state.interceptRules.filter((rule) => rule.id !== ruleId);
+  return state.interceptRules.length < before;
 }
 
 /**
- * PDFを保存
+ * すべてのインターセプトルールを削除
  */
-export function savePdf(name: string, data: string): void {
-  state.pdfs.set(name, data);
+export function clearInterceptRules(): void {
+  state.interceptRules = [];
+}
+
+/**
+ * すべてのインターセプトルールを登録順に取得
+ */
+export function getInterceptRules(): InterceptRule[] {
+  return state.interceptRules;
+}
+
+/**
+ * ファイルアクセスを許可するディレクトリを設定
+ */
+export function setAllowedDirectories(directories: string[]): void {
+  state.allowedDirectories = directories;
+}
+
+/**
+ * ファイルアクセスを許可するディレクトリを取得
+ */
+export function getAllowedDirectories(): string[] {
+  return state.allowedDirectories;
+}
+
+/**
+ * 読み込み済みのセッションプロファイルを取得
+ */
+export function getLoadedSession(): SessionProfile | undefined {
+  return state.loadedSession;
+}
+
+/**
+ * 読み込み済みのセッションプロファイルを設定
+ */
+export function setLoadedSession(profile: SessionProfile | undefined): void {
+  state.loadedSession = profile;
+}
+
+/**
+ * 記録中のスクリプトを取得
+ */
+export function getRecording(): RecordedScript | undefined {
+  return state.recording;
+}
+
+/**
+ * 記録中のスクリプトを設定（undefinedで記録を終了）
+ */
+export function setRecording(script: RecordedScript | undefined): void {
+  state.recording = script;
+}
+
+/**
+ * 記録中のスクリプトにステップを追加
+ */
+export function addRecordedStep(step: RecordedStep): void {
+  state.recording?.steps.push(step);
+}
+
+/**
+ * ダウンロードの記録を追加・更新
+ */
+export function saveDownload(entry: DownloadEntry): void {
+  state.downloads.set(entry.guid, entry);
+}
+
+/**
+ * ダウンロードの記録を取得
+ */
+export function getDownload(guid: string): DownloadEntry | undefined {
+  return state.downloads.get(guid);
+}
+
+/**
+ * すべてのダウンロードの記録を開始順に取得
+ */
+export function getDownloads(): DownloadEntry[] {
+  return Array.from(state.downloads.values());
+}
+
+/**
+ * ダイアログの応答方針を取得
+ * 種類別の方針が設定されている場合はそちらを優先
+ */
+export function getDialogPolicy(type?: DialogType): DialogPolicy {
+  return (type && state.dialogPolicyByType.get(type)) || state.dialogPolicy;
+}
+
+/**
+ * ダイアログの応答方針を設定
+ * 種類を指定しない場合は全体の方針を設定し、種類別の方針をリセット
+ */
+export function setDialogPolicy(policy: DialogPolicy, type?: DialogType): void {
+  if (type) {
+    state.dialogPolicyByType.set(type, policy);
+  } else {
+    state.dialogPolicy = policy;
+    state.dialogPolicyByType.clear();
+  }
+}
+
+/**
+ * 処理したダイアログを記録
+ */
+export function addDialogLog(entry: DialogLogEntry): void {
+  state.dialogLog.push(entry);
+  if (state.dialogLog.length > MAX_DIALOG_LOG_ENTRIES) {
+    state.dialogLog.splice(0, state.dialogLog.length - MAX_DIALOG_LOG_ENTRIES);
+  }
+}
+
+/**
+ * 処理したダイアログの記録を取得
+ */
+export function getDialogLog(): DialogLogEntry[] {
+  return state.dialogLog;
+}
+
+/**
+ * 処理したダイアログの記録をクリア
+ */
+export function clearDialogLog(): void {
+  state.dialogLog = [];
+}
+
+/**
+ * メモリ上のリソース（スクリーンショット・PDF）をURIをキーとして保存
+ * 保存したリソースは最も新しく使用されたものとして扱う
+ */
+export function saveResource(uri: string, data: string): void {
+  state.resources.delete(uri);
+  state.resources.set(uri, data);
+}
+
+/**
+ * メモリ上のリソースを取得し、最も新しく使用されたものとして扱う
+ */
+export function getResource(uri: string): string | undefined {
+  const data = state.resources.get(uri);
+  if (data !== undefined) {
+    state.resources.delete(uri);
+    state.resources.set(uri, data);
+  }
+  return data;
+}
+
+/**
+ * メモリ上のリソースを削除
+ * 削除できた場合はtrueを返す
+ */
+export function deleteResource(uri: string): boolean {
+  return state.resources.delete(uri);
+}
+
+/**
+ * メモリ上のリソースのURIとサイズを、使用された順（古い順）に取得
+ */
+export function getResourceEntries(): { uri: string; size: number }[] {
+  return Array.from(state.resources.entries()).map(([uri, data]) => ({
+    uri,
+    size: data.length,
+  }));
+}
+
+/**
+ * 件数・合計サイズの上限を超えるまで、最も長く使用されていないリソースを破棄
+ * 破棄したリソースのURIを返す
+ */
+export function evictResources(maxEntries: number, maxBytes: number): string[] {
+  const evicted: string[] = [];
+  let totalBytes = 0;
+  for (const data of state.resources.values()) {
+    totalBytes += data.length;
+  }
+
+  for (const [uri, data] of state.resources) {
+    if (state.resources.size <= maxEntries && totalBytes <= maxBytes) break;
+    // 直前に保存したリソースは上限を超えていても保持
+    if (state.resources.size === 1) break;
+    state.resources.delete(uri);
+    totalBytes -= data.length;
+    evicted.push(uri);
+  }
+  return evicted;
 }
 
 /**
- * PDFを取得
+ * 比較用のベースライン画像を保存
+ * 上限を超えた場合は、最も長く使用されていないものから破棄
  */
-export function getPdf(name: string): string | undefined {
-  return state.pdfs.get(name);
+export function saveBaseline(name: string, data: string): void {
+  state.baselines.delete(name);
+  state.baselines.set(name, data);
+  for (const oldest of state.baselines.keys()) {
+    if (state.baselines.size <= MAX_BASELINES) break;
+    state.baselines.delete(oldest);
+  }
 }
 
 /**
- * すべてのPDF名を取得
+ * 比較用のベースライン画像を取得し、最も新しく使用されたものとして扱う
  */
-export function getPdfNames(): string[] {
-  return Array.from(state.pdfs.keys());
+export function getBaseline(name: string): string | undefined {
+  const data = state.baselines.get(name);
+  if (data !== undefined) {
+    state.baselines.delete(name);
+    state.baselines.set(name, data);
+  }
+  return data;
 }
 
 /**
@@ -134,9 +574,15 @@ export function getPdfNames(): string[] {
  */
 export function clearState(): void {
   state.browser = undefined;
-  state.page = undefined;
-  state.currentFrame = undefined;
+  state.tabs.clear();
+  state.activeTabId = undefined;
+  state.nextTabNumber = 1;
   state.consoleLogs = [];
-  state.screenshots.clear();
-  state.pdfs.clear();
+  state.networkLog = [];
+  state.loadedSession = undefined;
+  state.recording = undefined;
+  state.downloads.clear();
+  state.dialogLog = [];
+  state.resources.clear();
+  state.baselines.clear();
 }
@@ -0,0 +1,33 @@
+/**
+ * アーティファクト系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const artifactTools: Tool[] = [
+  {
+    name: "puppeteer_list_artifacts",
+    description:
+      "List stored screenshots and PDFs with their resource URIs, sizes and file paths (files are written when PUPPETEER_ARTIFACTS_DIR is set)",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "puppeteer_delete_artifact",
+    description: "Delete a stored screenshot or PDF from memory and disk",
+    inputSchema: {
+      type: "object",
+      properties: {
+        kind: {
+          type: "string",
+          description: "Type of artifact",
+          enum: ["screenshot", "pdf"],
+        },
+        name: { type: "string", description: "Name of the screenshot or PDF" },
+      },
+      required: ["kind", "name"],
+    },
+  },
+];
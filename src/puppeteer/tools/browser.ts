@@ -0,0 +1,66 @@
+/**
+ * ブラウザ管理系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+const launchProfileSchema = {
+  type: "object",
+  description: "Launch settings overriding the selected profile",
+  properties: {
+    headless: { type: "boolean", description: "Run without a visible window" },
+    executablePath: { type: "string", description: "Path to a Chrome/Chromium executable" },
+    proxy: { type: "string", description: "Proxy server (e.g., 'http://proxy:8080')" },
+    locale: { type: "string", description: "Browser language (e.g., 'ja-JP')" },
+    timezone: { type: "string", description: "Timezone ID (e.g., 'Asia/Tokyo')" },
+    geolocation: {
+      type: "object",
+      properties: {
+        latitude: { type: "number" },
+        longitude: { type: "number" },
+        accuracy: { type: "number" },
+      },
+      required: ["latitude", "longitude"],
+    },
+    args: {
+      type: "array",
+      description: "Extra Chrome command line arguments",
+      items: { type: "string" },
+    },
+    defaultViewport: {
+      type: ["object", "null"],
+      description: "Default viewport, or null to follow the window size",
+      properties: {
+        width: { type: "number" },
+        height: { type: "number" },
+        deviceScaleFactor: { type: "number" },
+        isMobile: { type: "boolean" },
+        hasTouch: { type: "boolean" },
+      },
+      required: ["width", "height"],
+    },
+  },
+};
+
+export const browserTools: Tool[] = [
+  {
+    name: "puppeteer_restart_browser",
+    description:
+      "Close the browser and relaunch it with a launch profile (from the PUPPETEER_LAUNCH_CONFIG file) and/or overrides. Open tabs are closed; logs, rules and settings are kept",
+    inputSchema: {
+      type: "object",
+      properties: {
+        profile: { type: "string", description: "Name of the launch profile to use" },
+        overrides: launchProfileSchema,
+      },
+    },
+  },
+  {
+    name: "puppeteer_list_launch_profiles",
+    description: "List available launch profiles and show the settings the browser is running with",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+];
@@ -0,0 +1,45 @@
+/**
+ * ダイアログ系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const dialogTools: Tool[] = [
+  {
+    name: "puppeteer_set_dialog_handler",
+    description:
+      "Set how native dialogs (alert, confirm, prompt, beforeunload) are answered automatically. Default: accept all dialogs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          description: "Whether to accept (OK) or dismiss (Cancel) dialogs",
+          enum: ["accept", "dismiss"],
+        },
+        promptText: {
+          type: "string",
+          description:
+            "Text to enter into prompt dialogs when accepting (default: the prompt's default value)",
+        },
+        dialogType: {
+          type: "string",
+          description:
+            "Only apply to this dialog type. Without it, the policy applies to all types and resets per-type policies",
+          enum: ["alert", "confirm", "prompt", "beforeunload"],
+        },
+      },
+      required: ["action"],
+    },
+  },
+  {
+    name: "puppeteer_get_dialogs",
+    description: "Get the log of native dialogs that were shown and how they were answered",
+    inputSchema: {
+      type: "object",
+      properties: {
+        clear: { type: "boolean", description: "Clear the log after reading (default: false)" },
+      },
+    },
+  },
+];
@@ -0,0 +1,61 @@
+/**
+ * ファイル操作系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const fileTools: Tool[] = [
+  {
+    name: "puppeteer_upload_file",
+    description:
+      "Upload local files through an <input type=file> element, or through the file chooser opened by clicking the element. Files must be within the allowed directories",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description:
+            "Locator of the file input, or of the element that opens a file chooser (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
+        ref: {
+          type: "string",
+          description:
+            "Element ref from puppeteer_accessibility_snapshot (alternative to selector)",
+        },
+        paths: {
+          type: "array",
+          description: "Paths of the files to upload",
+          items: { type: "string" },
+        },
+      },
+      required: ["paths"],
+    },
+  },
+  {
+    name: "puppeteer_list_downloads",
+    description: "List downloads started by the browser with their state and saved file paths",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "puppeteer_wait_for_download",
+    description:
+      "Wait for a download to complete, optionally clicking an element that triggers it. Returns the saved file path",
+    inputSchema: {
+      type: "object",
+      properties: {
+        triggerSelector: {
+          type: "string",
+          description:
+            "Locator of an element to click to start the download (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
+        timeout: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds (default: 30000)",
+        },
+      },
+    },
+  },
+];
@@ -10,6 +10,15 @@ import { pageTools } from "./page.js";
 import { cookieTools } from "./cookie.js";
 import { infoTools } from "./info.js";
 import { frameTools } from "./frame.js";
+import { tabTools } from "./tab.js";
+import { networkTools } from "./network.js";
+import { sessionTools } from "./session.js";
+import { visualTools } from "./visual.js";
+import { scriptTools } from "./script.js";
+import { fileTools } from "./file.js";
+import { dialogTools } from "./dialog.js";
+import { browserTools } from "./browser.js";
+import { artifactTools } from "./artifact.js";
 import { miscTools } from "./misc.js";
 
 /**
@@ -23,5 +32,14 @@ export const TOOLS: Tool[] = [
   ...cookieTools,
   ...infoTools,
   ...frameTools,
+  ...tabTools,
+  ...networkTools,
+  ...sessionTools,
+  ...visualTools,
+  ...scriptTools,
+  ...fileTools,
+  ...dialogTools,
+  ...browserTools,
+  ...artifactTools,
   ...miscTools,
 ];
@@ -40,7 +40,10 @@ export const infoTools: Tool[] = [
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector of the element" },
+        selector: {
+          type: "string",
+          description: "Locator of the element (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
       },
       required: ["selector"],
     },
@@ -51,11 +54,118 @@ export const infoTools: Tool[] = [
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector of the element" },
+        selector: {
+          type: "string",
+          description: "Locator of the element (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
         includeStyles: { type: "boolean", description: "Include computed styles" },
         includeAccessibility: { type: "boolean", description: "Include accessibility information" },
       },
       required: ["selector"],
     },
   },
+  {
+    name: "puppeteer_accessibility_snapshot",
+    description:
+      "Get a compact accessibility tree (role, name, state) of the page with element refs. Refs stay stable for the same element until navigation and can be passed as 'ref' to puppeteer_click and puppeteer_fill",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "Locator of the root element (default: whole page)",
+        },
+        interestingOnly: {
+          type: "boolean",
+          description: "Omit nodes that are not interesting for accessibility (default: true)",
+        },
+        maxDepth: { type: "number", description: "Maximum tree depth to include" },
+      },
+    },
+  },
+  {
+    name: "puppeteer_extract",
+    description:
+      "Extract structured JSON data using a schema of field name to selector. With itemSelector, returns one record per matching item (e.g., rows of a list). Optionally follows a 'next' link to extract multiple pages. Runs in the frame selected with puppeteer_switch_to_frame, if any",
+    inputSchema: {
+      type: "object",
+      properties: {
+        fields: {
+          type: "object",
+          description: "Map of field name to extraction rule",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              selector: {
+                type: "string",
+                description: "CSS selector (relative to the item when itemSelector is set)",
+              },
+              type: {
+                type: "string",
+                description:
+                  "What to extract (default: 'text', or 'attribute' when attribute is set)",
+                enum: ["text", "html", "attribute"],
+              },
+              attribute: { type: "string", description: "Attribute name (e.g., 'href', 'src')" },
+              multiple: {
+                type: "boolean",
+                description: "Return all matches as a list instead of the first match",
+              },
+            },
+            required: ["selector"],
+          },
+        },
+        itemSelector: {
+          type: "string",
+          description: "CSS selector of repeated items; fields are extracted within each item",
+        },
+        nextSelector: {
+          type: "string",
+          description:
+            "Locator of the 'next page' element to click for pagination (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
+        maxPages: {
+          type: "number",
+          description: "Maximum number of pages to extract when nextSelector is set (default: 1)",
+        },
+        navigationTimeout: {
+          type: "number",
+          description: "Time to wait for the next page to load in milliseconds (default: 10000)",
+        },
+      },
+      required: ["fields"],
+    },
+  },
+  {
+    name: "puppeteer_get_console_logs",
+    description:
+      "Get captured console messages, uncaught page errors and failed requests with level, timestamp, source location and stack",
+    inputSchema: {
+      type: "object",
+      properties: {
+        levels: {
+          type: "array",
+          description: "Filter by level (e.g., 'error', 'warn', 'info', 'log', 'debug')",
+          items: { type: "string" },
+        },
+        pattern: {
+          type: "string",
+          description: "Only include messages whose text matches this regular expression",
+        },
+        since: {
+          type: "string",
+          description: "Only include messages at or after this time (ISO 8601 timestamp)",
+        },
+        tabId: { type: "string", description: "Only include messages from this tab" },
+        limit: {
+          type: "number",
+          description: "Maximum number of most recent entries to return (default: 100)",
+        },
+        clear: {
+          type: "boolean",
+          description: "Clear the console log after reading (default: false)",
+        },
+      },
+    },
+  },
 ];
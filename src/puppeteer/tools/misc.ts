@@ -23,7 +23,10 @@ export const miscTools: Tool[] = [
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector of the input field" },
+        selector: {
+          type: "string",
+          description: "Locator of the input field (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
       },
       required: ["selector"],
     },
@@ -23,7 +23,11 @@ export const navigationTools: Tool[] = [
       type: "object",
       properties: {
         name: { type: "string", description: "Name for the screenshot" },
-        selector: { type: "string", description: "CSS selector for element to screenshot" },
+        selector: {
+          type: "string",
+          description:
+            "Locator for element to screenshot (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
         width: { type: "number", description: "Width in pixels (default: 800)" },
         height: { type: "number", description: "Height in pixels (default: 600)" },
       },
@@ -36,9 +40,17 @@ export const navigationTools: Tool[] = [
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector for element to click" },
+        selector: {
+          type: "string",
+          description:
+            "Locator for element to click (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
+        ref: {
+          type: "string",
+          description:
+            "Element ref from puppeteer_accessibility_snapshot (alternative to selector)",
+        },
       },
-      required: ["selector"],
     },
   },
   {
@@ -47,10 +59,18 @@ export const navigationTools: Tool[] = [
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector for input field" },
+        selector: {
+          type: "string",
+          description: "Locator for input field (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
+        ref: {
+          type: "string",
+          description:
+            "Element ref from puppeteer_accessibility_snapshot (alternative to selector)",
+        },
         value: { type: "string", description: "Value to fill" },
       },
-      required: ["selector", "value"],
+      required: ["value"],
     },
   },
   {
@@ -59,19 +79,58 @@ export const navigationTools: Tool[] = [
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector for select element" },
+        selector: {
+          type: "string",
+          description: "Locator for select element (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
         value: { type: "string", description: "Value to select" },
       },
       required: ["selector", "value"],
     },
   },
+  {
+    name: "puppeteer_fill_form",
+    description:
+      "Fill multiple form fields in one call (text inputs, textareas, selects, checkboxes, radios, date inputs), optionally submit, and return per-field validation messages",
+    inputSchema: {
+      type: "object",
+      properties: {
+        fields: {
+          type: "object",
+          description:
+            "Map of field locator to value. Use true/false for checkboxes, the option value (or an array for multi-selects) for selects, and for radios either true or the value of the radio to pick within the group",
+          additionalProperties: {
+            anyOf: [
+              { type: "string" },
+              { type: "number" },
+              { type: "boolean" },
+              { type: "array", items: { type: "string" } },
+            ],
+          },
+        },
+        submit: {
+          type: "boolean",
+          description: "Submit the form containing the fields after filling (default: false)",
+        },
+        submitSelector: {
+          type: "string",
+          description: "Locator of a submit button to click after filling (implies submit)",
+        },
+      },
+      required: ["fields"],
+    },
+  },
   {
     name: "puppeteer_hover",
     description: "Hover over an element on the page",
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector for element to hover" },
+        selector: {
+          type: "string",
+          description:
+            "Locator for element to hover (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
       },
       required: ["selector"],
     },
@@ -87,4 +146,89 @@ export const navigationTools: Tool[] = [
       required: ["script"],
     },
   },
+  {
+    name: "puppeteer_drag_and_drop",
+    description:
+      "Drag with the mouse from a source to a target, each given as an element locator or page coordinates",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sourceSelector: {
+          type: "string",
+          description:
+            "Locator of the element to drag (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
+        targetSelector: {
+          type: "string",
+          description: "Locator of the drop target (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
+        sourceX: { type: "number", description: "Source x coordinate (instead of sourceSelector)" },
+        sourceY: { type: "number", description: "Source y coordinate (instead of sourceSelector)" },
+        targetX: { type: "number", description: "Target x coordinate (instead of targetSelector)" },
+        targetY: { type: "number", description: "Target y coordinate (instead of targetSelector)" },
+        steps: {
+          type: "number",
+          description: "Number of intermediate mouse moves (default: 10)",
+        },
+      },
+    },
+  },
+  {
+    name: "puppeteer_scroll",
+    description:
+      "Scroll the page or an element by pixels, scroll an element into view, or keep scrolling to the bottom until no new content loads (infinite scroll)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "Locator of the element to scroll (default: the page)",
+        },
+        x: { type: "number", description: "Horizontal scroll amount in pixels" },
+        y: {
+          type: "number",
+          description:
+            "Vertical scroll amount in pixels (default: one viewport height, or 0 when x is given)",
+        },
+        intoView: {
+          type: "boolean",
+          description: "Scroll the element given by selector into view",
+        },
+        untilNoNewContent: {
+          type: "boolean",
+          description: "Repeatedly scroll to the bottom until the content height stops growing",
+        },
+        maxScrolls: {
+          type: "number",
+          description: "Maximum number of scrolls for untilNoNewContent (default: 20)",
+        },
+        delay: {
+          type: "number",
+          description: "Wait after each scroll for new content in milliseconds (default: 500)",
+        },
+      },
+    },
+  },
+  {
+    name: "puppeteer_mouse_click",
+    description: "Click at page coordinates (useful for canvas-based UIs)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        x: { type: "number", description: "X coordinate in CSS pixels" },
+        y: { type: "number", description: "Y coordinate in CSS pixels" },
+        button: {
+          type: "string",
+          description: "Mouse button (default: 'left')",
+          enum: ["left", "right", "middle"],
+        },
+        clickCount: { type: "number", description: "Number of clicks (default: 1)" },
+        delay: {
+          type: "number",
+          description: "Time between mousedown and mouseup in milliseconds",
+        },
+      },
+      required: ["x", "y"],
+    },
+  },
 ];
@@ -0,0 +1,134 @@
+/**
+ * ネットワーク系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const networkTools: Tool[] = [
+  {
+    name: "puppeteer_get_network_log",
+    description:
+      "Get recorded network requests and responses (URL, method, status, headers, timing, size)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urlPattern: {
+          type: "string",
+          description: "Filter by URL (substring, or wildcard pattern when it contains '*')",
+        },
+        resourceTypes: {
+          type: "array",
+          description: "Filter by resource type (e.g., 'xhr', 'fetch', 'document', 'script')",
+          items: { type: "string" },
+        },
+        tabId: { type: "string", description: "Only include requests from this tab" },
+        failedOnly: {
+          type: "boolean",
+          description: "Only include failed requests and HTTP error responses (status >= 400)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of most recent entries to return (default: 50)",
+        },
+        includeHeaders: {
+          type: "boolean",
+          description: "Include request and response headers (default: false)",
+        },
+        includeBodies: {
+          type: "boolean",
+          description: "Include request post data and captured response bodies (default: false)",
+        },
+        clear: {
+          type: "boolean",
+          description: "Clear the network log after reading (default: false)",
+        },
+      },
+    },
+  },
+  {
+    name: "puppeteer_set_network_capture",
+    description: "Configure network capture (enable/disable, response body capture)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean", description: "Record network requests (default: true)" },
+        captureBodies: {
+          type: "boolean",
+          description: "Capture textual response bodies (default: false)",
+        },
+        maxBodySize: {
+          type: "number",
+          description: "Maximum captured body size in characters (default: 102400)",
+        },
+      },
+    },
+  },
+  {
+    name: "puppeteer_add_intercept_rule",
+    description:
+      "Register a request interception rule applied to all tabs: block requests, rewrite request headers, or fulfill with a mocked response. Rules are evaluated in registration order; the first match wins",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urlPattern: {
+          type: "string",
+          description: "URL to match (substring, or wildcard pattern when it contains '*')",
+        },
+        resourceTypes: {
+          type: "array",
+          description: "Resource types to match (e.g., 'image', 'xhr', 'fetch', 'script')",
+          items: { type: "string" },
+        },
+        method: { type: "string", description: "HTTP method to match (e.g., 'GET', 'POST')" },
+        action: {
+          type: "string",
+          description: "What to do with matching requests",
+          enum: ["block", "modify_headers", "fulfill"],
+        },
+        requestHeaders: {
+          type: "object",
+          description: "Request headers to add or overwrite (modify_headers)",
+          additionalProperties: { type: "string" },
+        },
+        removeHeaders: {
+          type: "array",
+          description: "Request header names to remove (modify_headers)",
+          items: { type: "string" },
+        },
+        status: { type: "number", description: "Response status code (fulfill, default: 200)" },
+        contentType: { type: "string", description: "Response content type (fulfill)" },
+        responseHeaders: {
+          type: "object",
+          description: "Response headers (fulfill)",
+          additionalProperties: { type: "string" },
+        },
+        body: { type: "string", description: "Inline response body (fulfill)" },
+        bodyFile: {
+          type: "string",
+          description:
+            "Path to a file used as the response body (fulfill). Must be within the allowed directories",
+        },
+      },
+      required: ["action"],
+    },
+  },
+  {
+    name: "puppeteer_list_intercept_rules",
+    description: "List registered request interception rules with their hit counts",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "puppeteer_remove_intercept_rule",
+    description: "Remove a request interception rule, or all rules",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ruleId: { type: "string", description: "ID of the rule to remove" },
+        all: { type: "boolean", description: "Remove all rules" },
+      },
+    },
+  },
+];
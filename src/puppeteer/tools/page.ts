@@ -95,4 +95,41 @@ export const pageTools: Tool[] = [
       required: ["device"],
     },
   },
+  {
+    name: "puppeteer_performance_metrics",
+    description:
+      "Measure performance of the current page: Navigation Timing, Web Vitals (LCP, CLS, FCP, TTFB, FID/INP approximations) with good/needs-improvement/poor ratings, JS heap usage and request counts",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reload: {
+          type: "boolean",
+          description: "Reload the page before measuring, e.g. after enabling throttling",
+        },
+        waitUntil: {
+          type: "string",
+          description: "When to consider the reload finished (default: 'load')",
+          enum: ["load", "domcontentloaded", "networkidle0", "networkidle2"],
+        },
+      },
+    },
+  },
+  {
+    name: "puppeteer_emulate_throttling",
+    description: "Emulate a slow CPU and/or network conditions for the current tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cpuRate: {
+          type: "number",
+          description: "CPU slowdown factor (1 = no throttling, 4 = 4x slower)",
+        },
+        network: {
+          type: "string",
+          description: "Network condition preset",
+          enum: ["none", "offline", "Slow 3G", "Fast 3G", "Slow 4G", "Fast 4G"],
+        },
+      },
+    },
+  },
 ];
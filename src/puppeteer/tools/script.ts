@@ -0,0 +1,55 @@
+/**
+ * 記録・再生系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const scriptTools: Tool[] = [
+  {
+    name: "puppeteer_start_recording",
+    description:
+      "Start recording successfully executed browser actions (navigate, click, fill, wait, ...) into a replayable script",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Name of the script" },
+      },
+    },
+  },
+  {
+    name: "puppeteer_stop_recording",
+    description:
+      "Stop recording and return the recorded script as JSON, optionally saving it to a file",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File path to save the script to. Must be within the allowed directories",
+        },
+      },
+    },
+  },
+  {
+    name: "puppeteer_run_script",
+    description: "Replay a recorded script step by step and report the result of each step",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path of a saved script file. Must be within the allowed directories",
+        },
+        script: {
+          type: "object",
+          description:
+            "Script object as returned by puppeteer_stop_recording (alternative to path)",
+        },
+        stopOnFailure: {
+          type: "boolean",
+          description: "Stop at the first failing step (default: true)",
+        },
+      },
+    },
+  },
+];
@@ -0,0 +1,56 @@
+/**
+ * セッションプロファイル系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const sessionTools: Tool[] = [
+  {
+    name: "puppeteer_save_session",
+    description:
+      "Save cookies, localStorage and sessionStorage of the open tabs to a named profile on disk, so the session survives server restarts",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description:
+            "Profile name (letters, digits, '_' and '-'); overwrites an existing profile",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "puppeteer_load_session",
+    description:
+      "Restore a saved session profile: cookies are set immediately, web storage is restored when pages of the saved origins load",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Profile name" },
+        url: { type: "string", description: "URL to navigate to after restoring the session" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "puppeteer_list_sessions",
+    description: "List saved session profiles",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "puppeteer_delete_session",
+    description: "Delete a saved session profile",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Profile name" },
+      },
+      required: ["name"],
+    },
+  },
+];
@@ -0,0 +1,51 @@
+/**
+ * タブ操作系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const tabTools: Tool[] = [
+  {
+    name: "puppeteer_new_tab",
+    description: "Open a new browser tab, optionally navigating to a URL",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL to open in the new tab" },
+        activate: {
+          type: "boolean",
+          description: "Make the new tab the active tab (default: true)",
+        },
+      },
+    },
+  },
+  {
+    name: "puppeteer_list_tabs",
+    description: "List all open tabs, including popups and windows opened by the page",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "puppeteer_switch_tab",
+    description: "Switch the active tab that all other tools operate on",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "string", description: "ID of the tab (from puppeteer_list_tabs)" },
+      },
+      required: ["tabId"],
+    },
+  },
+  {
+    name: "puppeteer_close_tab",
+    description: "Close a tab (default: the active tab)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "string", description: "ID of the tab to close" },
+      },
+    },
+  },
+];
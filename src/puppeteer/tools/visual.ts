@@ -0,0 +1,44 @@
+/**
+ * ビジュアル比較系ツール定義
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const visualTools: Tool[] = [
+  {
+    name: "puppeteer_compare_screenshot",
+    description:
+      "Capture a screenshot and compare it pixel by pixel against a stored baseline. Returns the mismatch percentage and a diff image with changed pixels highlighted. The first run (or updateBaseline) stores the capture as the baseline. In-memory baselines are limited to the 20 most recently used and are lost when the server restarts; use baselineFile to keep them",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description:
+            "Baseline name. Falls back to a screenshot taken with puppeteer_screenshot under the same name",
+        },
+        baselineFile: {
+          type: "string",
+          description:
+            "PNG file used as the baseline instead of the in-memory one. Must be within the allowed directories",
+        },
+        selector: {
+          type: "string",
+          description:
+            "Locator for element to capture (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
+        width: { type: "number", description: "Width in pixels (default: 800)" },
+        height: { type: "number", description: "Height in pixels (default: 600)" },
+        threshold: {
+          type: "number",
+          description: "Per-pixel color difference threshold from 0 to 1 (default: 0.1)",
+        },
+        updateBaseline: {
+          type: "boolean",
+          description: "Replace the baseline with the new capture after comparing (default: false)",
+        },
+      },
+      required: ["name"],
+    },
+  },
+];
@@ -11,7 +11,10 @@ export const waitTools: Tool[] = [
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector to wait for" },
+        selector: {
+          type: "string",
+          description: "Locator to wait for (CSS, or xpath=, text=, role=, pierce= locator)",
+        },
         timeout: {
           type: "number",
           description: "Maximum time to wait in milliseconds (default: 30000)",
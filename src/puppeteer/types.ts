@@ -5,7 +5,8 @@
  * すべての型定義が含まれています。
  */
 
-import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 
 /**
  * グローバルなWindow型定義の拡張
@@ -16,6 +17,7 @@ declare global {
       logs: string[];
       originalConsole: Partial<typeof console>;
     };
+    mcpRefCounter?: number;
   }
 }
 
@@ -34,11 +36,13 @@ export interface ScreenshotArgs {
 }
 
 export interface ClickArgs {
-  selector: string;
+  selector?: string;
+  ref?: string;
 }
 
 export interface FillArgs {
-  selector: string;
+  selector?: string;
+  ref?: string;
   value: string;
 }
 
@@ -47,10 +51,61 @@ export interface SelectArgs {
   value: string;
 }
 
+/**
+ * フォーム項目に入力する値（チェックボックスは真偽値、複数選択は配列）
+ */
+export type FormFieldValue = string | number | boolean | string[];
+
+export interface FillFormArgs {
+  fields: Record<string, FormFieldValue>;
+  submit?: boolean;
+  submitSelector?: string;
+}
+
+/**
+ * フォーム項目ごとの入力結果
+ */
+export interface FormFieldResult {
+  locator: string;
+  kind?: string;
+  filled: boolean;
+  valid?: boolean;
+  validationMessage?: string;
+  error?: string;
+}
+
 export interface HoverArgs {
   selector: string;
 }
 
+export interface DragAndDropArgs {
+  sourceSelector?: string;
+  targetSelector?: string;
+  sourceX?: number;
+  sourceY?: number;
+  targetX?: number;
+  targetY?: number;
+  steps?: number;
+}
+
+export interface ScrollArgs {
+  selector?: string;
+  x?: number;
+  y?: number;
+  intoView?: boolean;
+  untilNoNewContent?: boolean;
+  maxScrolls?: number;
+  delay?: number;
+}
+
+export interface MouseClickArgs {
+  x: number;
+  y: number;
+  button?: "left" | "right" | "middle";
+  clickCount?: number;
+  delay?: number;
+}
+
 export interface EvaluateArgs {
   script: string;
 }
@@ -116,6 +171,16 @@ export interface EmulateDeviceArgs {
   device: string;
 }
 
+export interface PerformanceMetricsArgs {
+  reload?: boolean;
+  waitUntil?: "load" | "domcontentloaded" | "networkidle0" | "networkidle2";
+}
+
+export interface EmulateThrottlingArgs {
+  cpuRate?: number;
+  network?: "none" | "offline" | "Slow 3G" | "Fast 3G" | "Slow 4G" | "Fast 4G";
+}
+
 export interface CookieObject {
   name: string;
   value: string;
@@ -144,6 +209,30 @@ export interface GetTextArgs {
   selector: string;
 }
 
+export interface AccessibilitySnapshotArgs {
+  selector?: string;
+  interestingOnly?: boolean;
+  maxDepth?: number;
+}
+
+/**
+ * 抽出フィールドの定義
+ */
+export interface ExtractFieldSpec {
+  selector: string;
+  type?: "text" | "html" | "attribute";
+  attribute?: string;
+  multiple?: boolean;
+}
+
+export interface ExtractArgs {
+  fields: Record<string, ExtractFieldSpec>;
+  itemSelector?: string;
+  nextSelector?: string;
+  maxPages?: number;
+  navigationTimeout?: number;
+}
+
 export interface GetFramesArgs {
   detailed?: boolean;
 }
@@ -182,6 +271,324 @@ export interface ClearInputArgs {
   selector: string;
 }
 
+export interface NewTabArgs {
+  url?: string;
+  activate?: boolean;
+}
+
+export interface SwitchTabArgs {
+  tabId: string;
+}
+
+export interface CloseTabArgs {
+  tabId?: string;
+}
+
+export interface GetNetworkLogArgs {
+  urlPattern?: string;
+  resourceTypes?: string[];
+  tabId?: string;
+  failedOnly?: boolean;
+  limit?: number;
+  includeHeaders?: boolean;
+  includeBodies?: boolean;
+  clear?: boolean;
+}
+
+export interface SetNetworkCaptureArgs {
+  enabled?: boolean;
+  captureBodies?: boolean;
+  maxBodySize?: number;
+}
+
+export interface AddInterceptRuleArgs {
+  urlPattern?: string;
+  resourceTypes?: string[];
+  method?: string;
+  action: InterceptAction;
+  requestHeaders?: Record<string, string>;
+  removeHeaders?: string[];
+  status?: number;
+  contentType?: string;
+  responseHeaders?: Record<string, string>;
+  body?: string;
+  bodyFile?: string;
+}
+
+export interface RemoveInterceptRuleArgs {
+  ruleId?: string;
+  all?: boolean;
+}
+
+export interface CompareScreenshotArgs {
+  name: string;
+  baselineFile?: string;
+  selector?: string;
+  width?: number;
+  height?: number;
+  threshold?: number;
+  updateBaseline?: boolean;
+}
+
+export interface StartRecordingArgs {
+  name?: string;
+}
+
+export interface StopRecordingArgs {
+  path?: string;
+}
+
+export interface RunScriptArgs {
+  path?: string;
+  script?: RecordedScript;
+  stopOnFailure?: boolean;
+}
+
+/**
+ * 記録されたツール呼び出しの1ステップ
+ */
+export interface RecordedStep {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * 記録・再生用のスクリプト
+ */
+export interface RecordedScript {
+  version: 1;
+  name: string;
+  createdAt: string;
+  steps: RecordedStep[];
+}
+
+export interface UploadFileArgs {
+  selector?: string;
+  ref?: string;
+  paths: string[];
+}
+
+export interface WaitForDownloadArgs {
+  triggerSelector?: string;
+  timeout?: number;
+}
+
+/**
+ * ダウンロードの記録
+ */
+export interface DownloadEntry {
+  guid: string;
+  url: string;
+  suggestedFilename: string;
+  path?: string;
+  state: "inProgress" | "completed" | "canceled";
+  receivedBytes: number;
+  totalBytes: number;
+  startedAt: number;
+  completedAt?: number;
+}
+
+export type DialogType = "alert" | "confirm" | "prompt" | "beforeunload";
+
+export interface SetDialogHandlerArgs {
+  action: "accept" | "dismiss";
+  promptText?: string;
+  dialogType?: DialogType;
+}
+
+export interface GetConsoleLogsArgs {
+  levels?: string[];
+  pattern?: string;
+  since?: string;
+  tabId?: string;
+  limit?: number;
+  clear?: boolean;
+}
+
+export interface GetDialogsArgs {
+  clear?: boolean;
+}
+
+/**
+ * ダイアログへの応答方針
+ */
+export interface DialogPolicy {
+  action: "accept" | "dismiss";
+  promptText?: string;
+}
+
+/**
+ * 処理したダイアログの記録
+ */
+export interface DialogLogEntry {
+  tabId: string;
+  type: string;
+  message: string;
+  defaultValue: string;
+  action: "accept" | "dismiss";
+  promptText?: string;
+  url: string;
+  timestamp: string;
+}
+
+/**
+ * ブラウザ起動プロファイル
+ */
+export interface LaunchProfile {
+  headless?: boolean;
+  executablePath?: string;
+  proxy?: string;
+  locale?: string;
+  timezone?: string;
+  geolocation?: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+  };
+  args?: string[];
+  defaultViewport?: {
+    width: number;
+    height: number;
+    deviceScaleFactor?: number;
+    isMobile?: boolean;
+    hasTouch?: boolean;
+  } | null;
+}
+
+/**
+ * 起動プロファイルの設定ファイル
+ */
+export interface LaunchConfigFile {
+  defaultProfile?: string;
+  profiles?: Record<string, LaunchProfile>;
+}
+
+export interface RestartBrowserArgs {
+  profile?: string;
+  overrides?: LaunchProfile;
+}
+
+export type ArtifactKind = "screenshot" | "pdf";
+
+export interface DeleteArtifactArgs {
+  kind: ArtifactKind;
+  name: string;
+}
+
+/**
+ * スクリーンショット・PDFの保存状況
+ */
+export interface ArtifactInfo {
+  kind: ArtifactKind;
+  name: string;
+  uri: string;
+  size: number;
+  inMemory: boolean;
+  path?: string;
+}
+
+export interface SaveSessionArgs {
+  name: string;
+}
+
+export interface LoadSessionArgs {
+  name: string;
+  url?: string;
+}
+
+export interface DeleteSessionArgs {
+  name: string;
+}
+
+/**
+ * オリジンごとのWebストレージ内容
+ */
+export interface OriginStorage {
+  origin: string;
+  localStorage: Record<string, string>;
+  sessionStorage: Record<string, string>;
+}
+
+/**
+ * ディスクに保存されるセッションプロファイル
+ */
+export interface SessionProfile {
+  name: string;
+  savedAt: string;
+  cookies: CookieObject[];
+  origins: OriginStorage[];
+}
+
+/**
+ * リクエストインターセプトのアクション
+ * - block: リクエストを中断
+ * - modify_headers: リクエストヘッダーを書き換えて続行
+ * - fulfill: 指定したレスポンスを返す
+ */
+export type InterceptAction = "block" | "modify_headers" | "fulfill";
+
+/**
+ * リクエストインターセプトのルール
+ */
+export interface InterceptRule extends Omit<AddInterceptRuleArgs, "bodyFile"> {
+  id: string;
+  bodyFile?: string;
+  hits: number;
+}
+
+/**
+ * コンソールログの発生元
+ */
+export type ConsoleLogSource = "console" | "pageerror" | "requestfailed";
+
+/**
+ * コンソールログのエントリ
+ */
+export interface ConsoleLogEntry {
+  id: number;
+  tabId: string;
+  source: ConsoleLogSource;
+  level: string;
+  text: string;
+  timestamp: string;
+  url?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  stack?: string;
+}
+
+/**
+ * ネットワークログのエントリ
+ */
+export interface NetworkLogEntry {
+  id: number;
+  tabId: string;
+  url: string;
+  method: string;
+  resourceType: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  fromCache?: boolean;
+  startTime: number;
+  endTime?: number;
+  duration?: number;
+  size?: number;
+  responseBody?: string;
+  failure?: string;
+}
+
+/**
+ * ネットワークキャプチャの設定
+ */
+export interface NetworkCaptureOptions {
+  enabled: boolean;
+  captureBodies: boolean;
+  maxBodySize: number;
+}
+
 /**
  * ツールカテゴリ
  */
@@ -193,6 +600,15 @@ export enum ToolCategory {
   Cookie = "cookie",
   Info = "info",
   Frame = "frame",
+  Tab = "tab",
+  Network = "network",
+  Session = "session",
+  Visual = "visual",
+  Script = "script",
+  File = "file",
+  Dialog = "dialog",
+  Browser = "browser",
+  Artifact = "artifact",
   Misc = "misc",
 }
 
@@ -200,3 +616,12 @@ export enum ToolCategory {
  * ツール定義型
  */
 export type ToolDefinition = Tool;
+
+/**
+ * ツール呼び出しを実行する関数の型
+ */
+export type ToolCallDispatcher = (
+  name: string,
+  args: any,
+  server: Server,
+) => Promise<CallToolResult>;
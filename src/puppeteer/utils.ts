@@ -5,10 +5,39 @@
  * 共通のユーティリティ関数が含まれています。
  */
 
-import puppeteer, { Page, Frame } from "puppeteer";
+import puppeteer, { Page, Frame, Dialog } from "puppeteer";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult, TextContent, ImageContent } from "@modelcontextprotocol/sdk/types.js";
-import { getBrowser, setBrowser, setPage, getPage, addConsoleLog } from "./state.js";
+import {
+  getBrowser,
+  setBrowser,
+  setPage,
+  getPage,
+  addTab,
+  findTabIdByPage,
+  removeTab,
+  setActiveTabId,
+  getAllowedDirectories,
+  getDialogPolicy,
+  addDialogLog,
+  getLaunchProfile,
+  setLaunchProfile,
+  resetBrowserState,
+} from "./state.js";
+import { DialogType } from "./types.js";
+import { attachConsoleCapture } from "./console.js";
+import { attachNetworkCapture, attachRequestInterception } from "./network.js";
+import { installSessionStorage } from "./session.js";
+import { setupDownloads } from "./downloads.js";
+import {
+  applyBrowserProfile,
+  applyPageProfile,
+  buildLaunchOptions,
+  resolveLaunchProfile,
+} from "./launch.js";
 
 /**
  * 統一されたエラーレスポンスを生成
@@ -65,41 +94,276 @@ export function createSuccessResponseWithImage(
 }
 
 /**
- * ブラウザインスタンスが存在することを保証し、ページを返します
+ * ページをタブとして登録し、イベントリスナーを設定します
+ * 既に登録済みのページの場合は既存のタブIDを返します
+ */
+export function registerPage(page: Page, server: Server): string {
+  const existing = findTabIdByPage(page);
+  if (existing) {
+    return existing;
+  }
+
+  const tabId = addTab(page);
+
+  // コンソールログ・ページエラーのキャプチャ設定
+  attachConsoleCapture(page, tabId, server);
+
+  // ネイティブダイアログは設定された方針で自動的に応答（放置するとページが停止するため）
+  page.on("dialog", (dialog) => {
+    respondToDialog(dialog, tabId, page.url()).catch((error) => {
+      console.error("Failed to handle dialog:", error);
+    });
+  });
+
+  // リクエスト/レスポンスのキャプチャ設定
+  attachNetworkCapture(page, tabId, server);
+
+  // インターセプトルールの適用設定
+  attachRequestInterception(page);
+
+  // 起動プロファイルのタイムゾーン・ロケール・位置情報を適用
+  const { profile } = getLaunchProfile();
+  if (profile) {
+    applyPageProfile(page, profile).catch((error) => {
+      console.error("Failed to apply launch profile to page:", error);
+    });
+  }
+
+  // 読み込み済みセッションのWebストレージを復元
+  installSessionStorage(page).catch((error) => {
+    console.error("Failed to restore session storage:", error);
+  });
+
+  // ページが閉じられたらタブの登録を解除
+  page.on("close", () => {
+    removeTab(tabId);
+  });
+
+  return tabId;
+}
+
+/**
+ * 設定された方針に従ってダイアログに応答し、記録します
+ */
+async function respondToDialog(dialog: Dialog, tabId: string, url: string): Promise<void> {
+  const type = dialog.type() as DialogType;
+  const policy = getDialogPolicy(type);
+
+  // promptは指定がなければデフォルト値で応答
+  const promptText = type === "prompt" ? (policy.promptText ?? dialog.defaultValue()) : undefined;
+
+  if (policy.action === "accept") {
+    await dialog.accept(promptText);
+  } else {
+    await dialog.dismiss();
+  }
+
+  addDialogLog({
+    tabId,
+    type,
+    message: dialog.message(),
+    defaultValue: dialog.defaultValue(),
+    action: policy.action,
+    promptText: policy.action === "accept" ? promptText : undefined,
+    url,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * ブラウザインスタンスが存在することを保証し、アクティブなタブのページを返します
  * 初めて呼び出された場合、ブラウザを起動して設定します
  */
 export async function ensureBrowser(server: Server): Promise<Page> {
   let browser = getBrowser();
-  let page = getPage();
 
   if (!browser) {
+    // 起動プロファイルを解決（puppeteer_restart_browserで指定されていればそれを使用）
+    let { name, profile } = getLaunchProfile();
+    if (!profile) {
+      ({ name, profile } = await resolveLaunchProfile());
+      setLaunchProfile(name, profile);
+    }
+
     // ブラウザを起動
-    browser = await puppeteer.launch({ headless: false });
-    setBrowser(browser);
+    const launched = await puppeteer.launch(buildLaunchOptions(profile));
+    browser = launched;
+    setBrowser(launched);
 
-    const pages = await browser.pages();
-    page = pages[0];
-    setPage(page);
-
-    // コンソールログのキャプチャ設定
-    if (page) {
-      page.on("console", (msg) => {
-        const logEntry = `[${msg.type()}] ${msg.text()}`;
-        addConsoleLog(logEntry);
-        server.notification({
-          method: "notifications/resources/updated",
-          params: { uri: "console://logs" },
+    // ブラウザが終了・切断された場合は次回呼び出し時に再起動する
+    launched.on("disconnected", () => {
+      if (getBrowser() === launched) {
+        resetBrowserState();
+      }
+    });
+
+    await applyBrowserProfile(launched, profile).catch((error) => {
+      console.error("Failed to apply launch profile to browser:", error);
+    });
+
+    // ダウンロード先の設定と進捗の記録
+    await setupDownloads(browser).catch((error) => {
+      console.error("Failed to set up downloads:", error);
+    });
+
+    // ポップアップやtarget=_blankのリンクで開かれたページもタブとして登録
+    browser.on("targetcreated", (target) => {
+      if (target.type() !== "page") return;
+      // すぐに閉じられたポップアップなどではページの取得に失敗することがある
+      target
+        .page()
+        .then((newPage) => {
+          if (newPage) {
+            registerPage(newPage, server);
+          }
+        })
+        .catch((error) => {
+          console.error("Failed to register new page:", error);
         });
-      });
+    });
+
+    const pages = await browser.pages();
+    for (const existingPage of pages) {
+      registerPage(existingPage, server);
+    }
+    if (pages[0]) {
+      setPage(pages[0]);
     }
   }
 
+  let page = getPage();
+
+  // アクティブなタブがすべて閉じられている場合は新しいタブを開く
   if (!page) {
-    throw new Error("Failed to initialize browser page");
+    page = await browser.newPage();
+    setActiveTabId(registerPage(page, server));
   }
+
   return page;
 }
 
+/**
+ * アクセシビリティスナップショットの要素参照を付与するDOM属性
+ */
+export const ELEMENT_REF_ATTRIBUTE = "data-mcp-ref";
+
+/**
+ * ロケーター文字列をPuppeteerのセレクタに変換
+ *
+ * 対応する記法:
+ * - `css=<selector>`: CSSセレクタ（接頭辞なしの場合も同様）
+ * - `xpath=<expression>`: XPath（`//`または`(//`で始まる場合は接頭辞を省略可能）
+ * - `text=<text>`: テキストを含む要素
+ * - `role=<role>[name="<name>"]`: ARIAロールとアクセシブルネーム
+ * - `pierce=<selector>`: Shadow DOMを貫通するCSSセレクタ
+ *
+ * Puppeteer独自の記法（`::-p-text(...)`、`>>>`など）はそのまま渡されます。
+ */
+export function resolveLocator(locator: string): string {
+  const match = /^(css|xpath|text|role|pierce)=([\s\S]*)$/.exec(locator);
+  if (!match) {
+    return /^\(*\/\//.test(locator) ? `::-p-xpath(${quoteSelectorArgument(locator)})` : locator;
+  }
+
+  const [, engine, body = ""] = match;
+  if (!body) {
+    throw new Error(`Empty locator: ${locator}`);
+  }
+
+  switch (engine) {
+    case "xpath":
+      return `::-p-xpath(${quoteSelectorArgument(body)})`;
+    case "text":
+      return `::-p-text(${quoteSelectorArgument(body)})`;
+    case "role": {
+      const [, role, attributes = ""] = /^([\w-]+)(\[[\s\S]*\])?$/.exec(body) ?? [];
+      if (!role) {
+        throw new Error(
+          `Invalid role locator: ${locator} (expected e.g. 'role=button[name="OK"]')`,
+        );
+      }
+      return `::-p-aria(${quoteSelectorArgument(`[role="${role}"]${attributes}`)})`;
+    }
+    case "pierce":
+      return `pierce/${body}`;
+    default:
+      return body;
+  }
+}
+
+/**
+ * 疑似要素セレクタの引数として文字列を引用符で囲む
+ */
+function quoteSelectorArgument(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * ロケーターまたは要素参照（puppeteer_accessibility_snapshotのref）から
+ * 操作対象のセレクタを解決
+ */
+export function resolveSelector(args: { selector?: string; ref?: string }): string {
+  if (args.ref) {
+    if (!/^e\d+$/.test(args.ref)) {
+      throw new Error(`Invalid element ref: ${args.ref} (expected e.g. 'e12')`);
+    }
+    return `[${ELEMENT_REF_ATTRIBUTE}="${args.ref}"]`;
+  }
+  if (args.selector) {
+    return resolveLocator(args.selector);
+  }
+  throw new Error("Must specify either selector or ref");
+}
+
+/**
+ * ホームディレクトリ表記（~）を展開
+ */
+export function expandHome(filepath: string): string {
+  if (filepath.startsWith("~/") || filepath === "~") {
+    return path.join(os.homedir(), filepath.slice(1));
+  }
+  return filepath;
+}
+
+/**
+ * パスが許可ディレクトリ内にあるかを検証し、解決済みの絶対パスを返します
+ * 存在しないパスの場合は親ディレクトリの実体で判定します
+ */
+export async function validateAllowedPath(requestedPath: string): Promise<string> {
+  const allowedDirectories = getAllowedDirectories();
+  if (allowedDirectories.length === 0) {
+    throw new Error(
+      "No allowed directories configured. Pass directories as arguments to the puppeteer server.",
+    );
+  }
+
+  const isWithinAllowed = (target: string) =>
+    allowedDirectories.some((dir) => target === dir || target.startsWith(dir + path.sep));
+
+  const absolute = path.resolve(expandHome(requestedPath));
+  if (!isWithinAllowed(absolute)) {
+    throw new Error(
+      `Access denied - path outside allowed directories: ${absolute} not in ${allowedDirectories.join(", ")}`,
+    );
+  }
+
+  // シンボリックリンクの実体も許可ディレクトリ内であることを確認
+  let realPath: string;
+  try {
+    realPath = await fs.realpath(absolute);
+  } catch {
+    const realParent = await fs.realpath(path.dirname(absolute)).catch(() => {
+      throw new Error(`Parent directory does not exist: ${path.dirname(absolute)}`);
+    });
+    realPath = path.join(realParent, path.basename(absolute));
+  }
+
+  if (!isWithinAllowed(realPath)) {
+    throw new Error("Access denied - symlink target outside allowed directories");
+  }
+  return realPath;
+}
+
 /**
  * 現在のフレームコンテキストまたはメインフレームを取得
  */